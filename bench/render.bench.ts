@@ -0,0 +1,199 @@
+/**
+ * Scroll-frame benchmark for `<virtual-list>`, run under jsdom with `npm run bench`.
+ *
+ * The virtualizer is swapped for a stand-in that slides a fixed window by one
+ * item per frame, so each frame exercises only the element's render path.
+ * Before timing anything, the harness counts the DOM operations of a frame —
+ * nodes inserted or removed and attributes written, as a MutationObserver sees
+ * them — and compares them with remounting the same window through
+ * `replaceChildren` and rewriting every item's ARIA attributes, which is what
+ * a full re-render costs. It fails if incremental rendering is not cheaper.
+ */
+import { bench, describe, vi } from 'vitest';
+
+interface BenchVirtualItem {
+  index: number;
+  start: number;
+  size: number;
+  end: number;
+  lane: number;
+  key: number;
+}
+
+const { StandInVirtualizer, instances } = vi.hoisted(() => {
+  class StandInVirtualizer {
+    options: { count: number; onChange?: (instance: StandInVirtualizer) => void };
+    virtualItems: BenchVirtualItem[] = [];
+    measurementsCache: BenchVirtualItem[] = [];
+    totalSize = 0;
+    scrollOffset = 0;
+    scrollRect = { width: 400, height: 600 };
+    range: { startIndex: number; endIndex: number } | null = null;
+    isScrolling = false;
+    shouldAdjustScrollPositionOnItemSizeChange: unknown;
+
+    constructor(options: StandInVirtualizer['options']) {
+      this.options = options;
+      instances.push(this);
+    }
+
+    _didMount(): () => void {
+      return () => {};
+    }
+
+    _willUpdate(): void {}
+
+    setOptions(options: StandInVirtualizer['options']): void {
+      this.options = options;
+    }
+
+    measure(): void {}
+
+    measureElement(): void {}
+
+    getVirtualItems(): BenchVirtualItem[] {
+      return this.virtualItems;
+    }
+
+    getTotalSize(): number {
+      return this.totalSize;
+    }
+
+    scrollToIndex(): void {}
+
+    scrollToOffset(offset: number): void {
+      this.scrollOffset = offset;
+    }
+
+    getOffsetForIndex(index: number): readonly [number, string] {
+      return [index * ITEM_SIZE, 'start'];
+    }
+
+    /** Shows `windowSize` items starting at `first`, like one scroll frame. */
+    scrollTo(first: number, windowSize: number): void {
+      this.virtualItems = Array.from({ length: windowSize }, (_, offset) => {
+        const index = first + offset;
+        return { index, start: index * ITEM_SIZE, size: ITEM_SIZE, end: (index + 1) * ITEM_SIZE, lane: 0, key: index };
+      });
+      this.range = { startIndex: first, endIndex: first + windowSize - 1 };
+      this.scrollOffset = first * ITEM_SIZE;
+      this.totalSize = this.options.count * ITEM_SIZE;
+      this.options.onChange?.(this);
+    }
+  }
+
+  const ITEM_SIZE = 24;
+  const instances: StandInVirtualizer[] = [];
+  return { StandInVirtualizer, instances };
+});
+
+vi.mock('@tanstack/virtual-core', () => ({
+  Virtualizer: StandInVirtualizer,
+  defaultRangeExtractor: (range: { startIndex: number; endIndex: number; overscan: number; count: number }) => {
+    const start = Math.max(range.startIndex - range.overscan, 0);
+    const end = Math.min(range.endIndex + range.overscan, range.count - 1);
+    return Array.from({ length: end - start + 1 }, (_, index) => start + index);
+  },
+  elementScroll: () => {},
+  observeElementRect: () => {},
+  observeElementOffset: () => {},
+  windowScroll: () => {},
+  observeWindowRect: () => {},
+  observeWindowOffset: () => {},
+  measureElement: () => 24,
+}));
+
+import { VirtualListElement } from '../src/virtual-list';
+
+const ITEM_COUNT = 10_000;
+const WINDOW_SIZE = 30;
+const FRAMES = 200;
+
+if (!customElements.get('virtual-list')) {
+  customElements.define('virtual-list', VirtualListElement);
+}
+
+const mountList = () => {
+  const list = document.createElement('virtual-list') as InstanceType<typeof VirtualListElement<number>>;
+  document.body.appendChild(list);
+  list.renderItem = (value, _index, recycled) => {
+    const row = recycled ?? document.createElement('div');
+    row.textContent = `Row ${value}`;
+    return row;
+  };
+  list.items = Array.from({ length: ITEM_COUNT }, (_, index) => index);
+  const instance = instances.at(-1);
+  if (!instance) {
+    throw new Error('The list did not create a virtualizer');
+  }
+  const container = list.shadowRoot!.querySelector('.items') as HTMLElement;
+  return { list, instance, container };
+};
+
+/** The previous strategy: remount the window and rewrite every item's ARIA attributes. */
+const fullRender = (container: HTMLElement): void => {
+  const children = Array.from(container.children) as HTMLElement[];
+  container.replaceChildren(...children);
+  for (const child of children) {
+    for (const name of ['data-index', 'tabindex', 'aria-setsize', 'aria-posinset', 'role']) {
+      child.setAttribute(name, child.getAttribute(name) ?? '');
+    }
+  }
+};
+
+/** Counts the nodes inserted or removed and the attributes written under `root` by `frame`. */
+const countOperations = (root: Node, frame: () => void): number => {
+  const observer = new MutationObserver(() => {});
+  observer.observe(root, { childList: true, attributes: true, subtree: true });
+  frame();
+  const records = observer.takeRecords();
+  observer.disconnect();
+  return records.reduce(
+    (total, record) =>
+      total + (record.type === 'childList' ? record.addedNodes.length + record.removedNodes.length : 1),
+    0,
+  );
+};
+
+const measureOperations = () => {
+  const { list, instance, container } = mountList();
+  instance.scrollTo(0, WINDOW_SIZE);
+  let incremental = 0;
+  let full = 0;
+  for (let frame = 1; frame <= FRAMES; frame++) {
+    incremental += countOperations(container, () => instance.scrollTo(frame, WINDOW_SIZE));
+    full += countOperations(container, () => fullRender(container));
+  }
+  list.remove();
+  return { incremental: incremental / FRAMES, full: full / FRAMES };
+};
+
+const operations = measureOperations();
+console.table({
+  'DOM operations per scroll frame': {
+    incremental: operations.incremental,
+    'full re-render': operations.full,
+  },
+});
+if (operations.incremental >= operations.full) {
+  throw new Error(
+    `Incremental rendering took ${operations.incremental} DOM operations per frame, ` +
+      `not fewer than the ${operations.full} of a full re-render`,
+  );
+}
+
+describe(`scrolling ${WINDOW_SIZE} of ${ITEM_COUNT} items by one item per frame`, () => {
+  const { instance, container } = mountList();
+  let frame = 0;
+
+  bench('incremental render', () => {
+    frame = (frame + 1) % (ITEM_COUNT - WINDOW_SIZE);
+    instance.scrollTo(frame, WINDOW_SIZE);
+  });
+
+  bench('incremental render + replaceChildren', () => {
+    frame = (frame + 1) % (ITEM_COUNT - WINDOW_SIZE);
+    instance.scrollTo(frame, WINDOW_SIZE);
+    fullRender(container);
+  });
+});
@@ -0,0 +1,66 @@
+/** Sets or removes an attribute, skipping the write when it already has that value. */
+export const updateAttribute = (element: Element, name: string, value: string | null): void => {
+  if (element.getAttribute(name) === value) {
+    return;
+  }
+  if (value === null) {
+    element.removeAttribute(name);
+  } else {
+    element.setAttribute(name, value);
+  }
+};
+
+/** Indices of the longest increasing subsequence of `positions`. */
+const longestIncreasingRun = (positions: number[]): Set<number> => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  positions.forEach((position, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (positions[tails[middle]!]! < position) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1]! : -1;
+    tails[low] = index;
+  });
+
+  const run = new Set<number>();
+  for (let index = tails.length > 0 ? tails[tails.length - 1]! : -1; index !== -1; index = previous[index]!) {
+    run.add(index);
+  }
+  return run;
+};
+
+/**
+ * Makes `nodes` the children of `parent`, in order. Stale children are
+ * removed, and of the children that stay, the longest run already in order is
+ * left attached while the rest are moved, so a scroll frame touches only the
+ * nodes entering or leaving the range (and a recycled node changing places).
+ */
+export const reconcileChildren = (parent: Node, nodes: readonly Node[]): void => {
+  const positions = new Map(nodes.map((node, position) => [node, position]));
+  const kept: Node[] = [];
+  for (const child of Array.from(parent.childNodes)) {
+    if (positions.has(child)) {
+      kept.push(child);
+    } else {
+      parent.removeChild(child);
+    }
+  }
+
+  const run = longestIncreasingRun(kept.map((node) => positions.get(node)!));
+  const stable = new Set(kept.filter((_, index) => run.has(index)));
+  let next: Node | null = null;
+  for (let position = nodes.length - 1; position >= 0; position--) {
+    const node = nodes[position]!;
+    if (!stable.has(node)) {
+      parent.insertBefore(node, next);
+    }
+    next = node;
+  }
+};
@@ -1,6 +1,33 @@
+import { VirtualGridElement } from './virtual-grid';
 import { VirtualListElement } from './virtual-list';
 
-export { VirtualListElement };
+export { VirtualGridElement, VirtualListElement };
+export type {
+  VirtualListEventMap,
+  VirtualListExpandedChangeDetail,
+  VirtualListFilter,
+  VirtualListGetChildren,
+  VirtualListGetItemText,
+  VirtualListGetKey,
+  VirtualListIsSticky,
+  VirtualListItemDetail,
+  VirtualListKey,
+  VirtualListLoadDetail,
+  VirtualListLoadDirection,
+  VirtualListLoadMore,
+  VirtualListPlaceholderSwapDetail,
+  VirtualListRangeChangeDetail,
+  VirtualListRenderItem,
+  VirtualListReorderDetail,
+  VirtualListScrollDetail,
+  VirtualListScrollOptions,
+  VirtualListSearchPredicate,
+  VirtualListSelectionChangeDetail,
+  VirtualListSelectionMode,
+  VirtualListSort,
+  VirtualListState,
+  VirtualListViewChangeDetail,
+} from './virtual-list';
 
 export const defineVirtualList = (tagName = 'virtual-list'): void => {
   if (typeof window === 'undefined' || typeof customElements === 'undefined') {
@@ -12,6 +39,16 @@ export const defineVirtualList = (tagName = 'virtual-list'): void => {
   }
 };
 
+export const defineVirtualGrid = (tagName = 'virtual-grid'): void => {
+  if (typeof window === 'undefined' || typeof customElements === 'undefined') {
+    return;
+  }
+
+  if (!customElements.get(tagName)) {
+    customElements.define(tagName, VirtualGridElement);
+  }
+};
+
 if (typeof window !== 'undefined') {
   defineVirtualList();
 }
@@ -0,0 +1,125 @@
+import { VIRTUAL_LIST_STYLES } from './styles';
+
+const DEFAULT_ESTIMATE = 48;
+const DEFAULT_INITIAL_COUNT = 20;
+
+type AttributeValue = string | number | boolean | null | undefined;
+
+export interface RenderVirtualListOptions<T> {
+  /** All items of the list; only the first window is rendered. */
+  items: readonly T[];
+  /**
+   * Returns the markup of one item. It must have a single root element,
+   * which receives the same attributes the element sets on the client.
+   */
+  renderItem: (data: T, index: number) => string;
+  /** Number of items rendered into the first window. Defaults to 20. */
+  initialCount?: number;
+  /** Estimated item size used for the sizer. Defaults to 48. */
+  estimateSize?: number;
+  orientation?: 'vertical' | 'horizontal';
+  /** Extra attributes of the host element, such as `class` or `selection-mode`. */
+  attributes?: Record<string, AttributeValue>;
+  tagName?: string;
+}
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const serializeAttributes = (attributes: Record<string, AttributeValue>): string => {
+  let result = '';
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value === false || value === null || value === undefined) {
+      continue;
+    }
+    result += value === true ? ` ${name}` : ` ${name}="${escapeAttribute(String(value))}"`;
+  }
+  return result;
+};
+
+/** One attribute of a start tag; quoted values may contain `>`. */
+const ATTRIBUTE = /\s+([^\s"'>/=]+)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?/g;
+const START_TAG = new RegExp(`^(\\s*<[a-zA-Z][\\w:-]*)((?:${ATTRIBUTE.source})*\\s*/?)>`);
+
+/** Adds the client's item attributes to the root element of `markup`. */
+const decorateItem = (markup: string, attributes: Record<string, AttributeValue>): string => {
+  const match = START_TAG.exec(markup);
+  const name = match?.[1];
+  const existing = match?.[2];
+  if (!match || name === undefined || existing === undefined) {
+    throw new Error('renderItem must return markup with a single root element');
+  }
+  const added = { ...attributes };
+  for (const [, attribute] of existing.matchAll(ATTRIBUTE)) {
+    if (attribute?.toLowerCase() === 'role') {
+      delete added.role;
+    }
+  }
+  return `${name}${serializeAttributes(added)}${existing}>${markup.slice(match[0].length)}`;
+};
+
+const parseNumber = (value: AttributeValue, fallback: number): number => {
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return value !== null && value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Renders a `<virtual-list>` with a declarative shadow root holding the
+ * list's structure and its first window of items, for server-side rendering.
+ * On the client the element adopts that shadow root and hands each rendered
+ * item to `renderItem` as the recycled element for its index.
+ */
+export const renderVirtualList = <T>(options: RenderVirtualListOptions<T>): string => {
+  const { items, renderItem, tagName = 'virtual-list' } = options;
+  const attributes = options.attributes ?? {};
+  const estimateSize = options.estimateSize ?? parseNumber(attributes['estimate-size'], DEFAULT_ESTIMATE);
+  const horizontal = (options.orientation ?? attributes.orientation) === 'horizontal';
+  const paddingStart = parseNumber(attributes['padding-start'], 0);
+  const paddingEnd = parseNumber(attributes['padding-end'], 0);
+  const selectionMode = attributes['selection-mode'];
+  const selectable = selectionMode === 'single' || selectionMode === 'multiple';
+
+  const count = items.length;
+  const rendered = Math.min(count, Math.max(0, options.initialCount ?? DEFAULT_INITIAL_COUNT));
+  let itemsMarkup = '';
+  for (let index = 0; index < rendered; index++) {
+    itemsMarkup += decorateItem(renderItem(items[index]!, index), {
+      role: selectable ? 'option' : 'listitem',
+      'data-index': index,
+      'aria-setsize': count,
+      'aria-posinset': index + 1,
+      'aria-selected': selectable ? 'false' : null,
+      tabindex: index === 0 ? 0 : -1,
+    });
+  }
+
+  const totalSize = paddingStart + count * estimateSize + paddingEnd;
+  const sizerStyle = horizontal ? `width: ${totalSize}px; height: 100%` : `height: ${totalSize}px; width: 100%`;
+  const transform = horizontal
+    ? `translate3d(${paddingStart}px, 0, 0)`
+    : `translate3d(0, ${paddingStart}px, 0)`;
+
+  const host = serializeAttributes({
+    role: selectable ? 'listbox' : 'list',
+    'aria-multiselectable': selectionMode === 'multiple' ? 'true' : null,
+    ...attributes,
+    'estimate-size': estimateSize,
+    orientation: horizontal ? 'horizontal' : attributes.orientation,
+  });
+
+  return (
+    `<${tagName}${host}>` +
+    '<template shadowrootmode="open">' +
+    `<style>${VIRTUAL_LIST_STYLES}</style>` +
+    '<div class="scroll" part="scroll">' +
+    `<div class="sizer" part="sizer" style="${sizerStyle}">` +
+    `<div class="items" part="items" style="transform: ${transform}">${itemsMarkup}</div>` +
+    '<div class="loading" part="loading" hidden><slot name="loading"></slot></div>' +
+    '<div class="find-proxies"></div>' +
+    '</div>' +
+    '</div>' +
+    '<div class="announcer" role="status" aria-live="assertive"></div>' +
+    '</template>' +
+    `</${tagName}>`
+  );
+};
@@ -0,0 +1,158 @@
+/** The host and scroll container, common to every virtualizing element. */
+const SCROLL_STYLES = `
+  :host {
+    display: block;
+    position: relative;
+    overflow: hidden;
+    contain: content;
+  }
+
+  :host([hidden]) {
+    display: none !important;
+  }
+
+  .scroll {
+    overflow: auto;
+    height: 100%;
+    width: 100%;
+    box-sizing: border-box;
+    position: relative;
+    will-change: scroll-position;
+  }
+`;
+
+/** Styles of the grid's shadow tree: rows and their cells are placed absolutely. */
+export const VIRTUAL_GRID_STYLES = `${SCROLL_STYLES}
+  .sizer {
+    position: relative;
+  }
+
+  .items {
+    position: absolute;
+    top: 0;
+    left: 0;
+  }
+
+  .items > * {
+    position: absolute;
+    left: 0;
+  }
+
+  .items > * > * {
+    position: absolute;
+    top: 0;
+    height: 100%;
+    box-sizing: border-box;
+  }
+`;
+
+/** Styles of the list's shadow tree, shared by the element and `renderVirtualList`. */
+export const VIRTUAL_LIST_STYLES = `${SCROLL_STYLES}
+  .sizer {
+    position: relative;
+    width: 100%;
+    min-height: 100%;
+  }
+
+  .scroll.external {
+    overflow: visible;
+    height: auto;
+    will-change: auto;
+  }
+
+  .items {
+    position: absolute;
+    top: 0;
+    left: 0;
+    right: 0;
+    will-change: transform;
+  }
+
+  :host([orientation="horizontal"]) .sizer {
+    min-height: auto;
+    height: 100%;
+  }
+
+  :host([orientation="horizontal"]) .items {
+    height: 100%;
+    display: flex;
+  }
+
+  .group {
+    display: contents;
+  }
+
+  /* A declared item-size wins over the content: rows are clipped to it. */
+  :host([item-size]) .items > :not([data-measure], .group, .placeholder),
+  :host([item-size]) .group > :not([data-measure], .placeholder) {
+    box-sizing: border-box;
+    height: var(--item-size);
+    overflow: hidden;
+  }
+
+  :host([item-size][orientation="horizontal"]) .items > :not([data-measure], .group, .placeholder),
+  :host([item-size][orientation="horizontal"]) .group > :not([data-measure], .placeholder) {
+    height: auto;
+    width: var(--item-size);
+    flex-shrink: 0;
+  }
+
+  .placeholder {
+    box-sizing: border-box;
+    border: 2px dashed color-mix(in srgb, currentColor 30%, transparent);
+  }
+
+  .scroll-placeholder {
+    box-sizing: border-box;
+    overflow: hidden;
+    flex-shrink: 0;
+  }
+
+  .find-proxies > * {
+    position: absolute;
+    color: transparent;
+    pointer-events: none;
+  }
+
+  .announcer {
+    position: absolute;
+    width: 1px;
+    height: 1px;
+    overflow: hidden;
+    clip-path: inset(50%);
+    white-space: nowrap;
+  }
+
+  .loading {
+    position: absolute;
+    left: 0;
+    right: 0;
+  }
+
+  .loading[hidden] {
+    display: none;
+  }
+
+  .loading[data-position="start"] {
+    top: 0;
+  }
+
+  .loading[data-position="end"] {
+    bottom: 0;
+  }
+
+  :host([orientation="horizontal"]) .loading {
+    top: 0;
+    bottom: 0;
+    left: auto;
+    right: auto;
+  }
+
+  :host([orientation="horizontal"]) .loading[data-position="start"] {
+    left: 0;
+  }
+
+  :host([orientation="horizontal"]) .loading[data-position="end"] {
+    right: 0;
+  }
+`;
@@ -0,0 +1,643 @@
+import {
+  Virtualizer,
+  elementScroll,
+  observeElementOffset,
+  observeElementRect,
+} from '@tanstack/virtual-core';
+import type { VirtualizerOptions } from '@tanstack/virtual-core';
+import { reconcileChildren, updateAttribute } from './dom';
+import { VIRTUAL_GRID_STYLES } from './styles';
+
+type Axis = 'rows' | 'columns';
+
+const DEFAULT_ROW_ESTIMATE = 48;
+const DEFAULT_COLUMN_ESTIMATE = 120;
+const DEFAULT_OVERSCAN = 2;
+
+const NUMBER_ATTRIBUTES = new Set(['overscan', 'estimate-size', 'column-estimate-size']);
+
+interface GridRow {
+  element: HTMLElement;
+  cells: HTMLElement[];
+}
+
+/**
+ * Virtualizes rows and columns at the same time. Each light-DOM child is a
+ * row and its element children are the cells; only the rows and cells that
+ * intersect the viewport are mounted.
+ */
+export class VirtualGridElement extends HTMLElement {
+  static get observedAttributes(): string[] {
+    return Array.from(NUMBER_ATTRIBUTES);
+  }
+
+  #rowVirtualizer: Virtualizer<HTMLDivElement, HTMLElement> | null = null;
+  #columnVirtualizer: Virtualizer<HTMLDivElement, HTMLElement> | null = null;
+  #cleanups: Array<() => void> = [];
+  #rows: GridRow[] = [];
+  #scrollElement: HTMLDivElement | null = null;
+  #sizerElement: HTMLDivElement | null = null;
+  #itemsContainer: HTMLDivElement | null = null;
+  #initialized = false;
+  #mutationObserver: MutationObserver | null = null;
+  #estimateSize = DEFAULT_ROW_ESTIMATE;
+  #columnEstimateSize = DEFAULT_COLUMN_ESTIMATE;
+  #overscan = DEFAULT_OVERSCAN;
+  #capturedElements = new Set<HTMLElement>();
+  /** Watches rows for cells added or removed after capture. */
+  #rowObserver: MutationObserver | null = null;
+  #rowsByElement = new WeakMap<Node, GridRow>();
+  /** Cells in the widest row, kept up to date as rows come and go. */
+  #columnCount = 0;
+  // The cell that takes part in the tab order, and whether it should get
+  // focus once it is mounted.
+  #activeRow = 0;
+  #activeColumn = 0;
+  #focusPending = false;
+
+  constructor() {
+    super();
+  }
+
+  /** Number of rows in the grid. */
+  get rowCount(): number {
+    return this.#rows.length;
+  }
+
+  /** Number of columns in the grid, taken from the widest row. */
+  get columnCount(): number {
+    return this.#columnCount;
+  }
+
+  connectedCallback(): void {
+    if (!this.#initialized) {
+      this.#initialize();
+    } else {
+      this.#startObservingLightDom();
+      this.#mountVirtualizers();
+    }
+  }
+
+  disconnectedCallback(): void {
+    this.#stopObservingLightDom();
+    this.#teardownVirtualizers();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue === newValue || !NUMBER_ATTRIBUTES.has(name)) {
+      return;
+    }
+
+    const parsed = newValue != null ? Number(newValue) : NaN;
+    switch (name) {
+      case 'estimate-size':
+        this.#estimateSize = Number.isFinite(parsed) ? parsed : DEFAULT_ROW_ESTIMATE;
+        break;
+      case 'column-estimate-size':
+        this.#columnEstimateSize = Number.isFinite(parsed) ? parsed : DEFAULT_COLUMN_ESTIMATE;
+        break;
+      case 'overscan':
+        this.#overscan = Number.isFinite(parsed) ? Math.max(0, Math.floor(parsed)) : DEFAULT_OVERSCAN;
+        break;
+    }
+
+    this.#updateVirtualizerOptions();
+  }
+
+  #initialize(): void {
+    this.#initialized = true;
+
+    if (!this.hasAttribute('role')) {
+      this.setAttribute('role', 'grid');
+    }
+
+    this.#captureChildren();
+    this.#setupShadowDom();
+    this.#startObservingLightDom();
+    this.#mountVirtualizers();
+  }
+
+  #captureChildren(): void {
+    const rows: GridRow[] = [];
+
+    for (const node of Array.from(this.childNodes)) {
+      if (node instanceof HTMLElement) {
+        rows.push(this.#captureRow(node));
+      }
+      this.removeChild(node);
+    }
+
+    this.#rows = rows;
+    this.#countColumns();
+  }
+
+  #countColumns(): void {
+    let count = 0;
+    for (const row of this.#rows) {
+      count = Math.max(count, row.cells.length);
+    }
+    this.#columnCount = count;
+  }
+
+  #removeRow(index: number): void {
+    const [row] = this.#rows.splice(index, 1);
+    if (row) {
+      this.#rowsByElement.delete(row.element);
+    }
+    // Only losing a widest row can narrow the grid.
+    if (row && row.cells.length === this.#columnCount) {
+      this.#countColumns();
+    }
+  }
+
+  #rowIndex(node: Node | null): number {
+    return node ? this.#rows.findIndex((row) => row.element === node) : -1;
+  }
+
+  /** Puts a row at `index`, capturing it unless it already is one; returns where it went. */
+  #placeRow(index: number, element: HTMLElement): number {
+    const current = this.#rowIndex(element);
+    if (current === -1) {
+      const row = this.#captureRow(element);
+      this.#rows.splice(index, 0, row);
+      this.#columnCount = Math.max(this.#columnCount, row.cells.length);
+      return index;
+    }
+    // Moving a row keeps the cells it already has.
+    const [row] = this.#rows.splice(current, 1);
+    const target = current < index ? index - 1 : index;
+    this.#rows.splice(target, 0, row!);
+    return target;
+  }
+
+  #captureRow(element: HTMLElement): GridRow {
+    if (!element.hasAttribute('role')) {
+      element.setAttribute('role', 'row');
+    }
+
+    const cells = Array.from(element.children).filter(
+      (child): child is HTMLElement => child instanceof HTMLElement,
+    );
+    for (const cell of cells) {
+      if (!cell.hasAttribute('role')) {
+        cell.setAttribute('role', 'gridcell');
+      }
+    }
+    element.replaceChildren();
+
+    const row = { element, cells };
+    this.#rowsByElement.set(element, row);
+    this.#rowObserver ??= new MutationObserver((mutations) => {
+      if (this.#handleRowMutations(mutations)) {
+        this.#updateVirtualizerOptions();
+      }
+    });
+    this.#rowObserver.observe(element, { childList: true });
+    return row;
+  }
+
+  /**
+   * Captures cells added to a row, before the cell they were inserted
+   * before or at the end, and drops cells removed from a rendered row. Returns whether any row
+   * changed.
+   */
+  #handleRowMutations(mutations: MutationRecord[]): boolean {
+    let changed = false;
+    for (const mutation of mutations) {
+      const row = this.#rowsByElement.get(mutation.target);
+      if (!row) {
+        continue;
+      }
+      const cellIndex = (node: Node | null) => (node instanceof HTMLElement ? row.cells.indexOf(node) : -1);
+      mutation.removedNodes.forEach((node) => {
+        const index = cellIndex(node);
+        if (index !== -1 && node.parentNode !== row.element) {
+          row.cells.splice(index, 1);
+          changed = true;
+        }
+      });
+
+      // A rendered row only holds the visible cells, so anything not
+      // inserted before one of them is appended.
+      let position = cellIndex(mutation.nextSibling);
+      if (position === -1) {
+        position = row.cells.length;
+      }
+      mutation.addedNodes.forEach((node) => {
+        if (!(node instanceof HTMLElement) || node.parentNode !== row.element) {
+          return;
+        }
+        const current = row.cells.indexOf(node);
+        if (current !== -1) {
+          row.cells.splice(current, 1);
+          if (current < position) {
+            position -= 1;
+          }
+        }
+        if (!node.hasAttribute('role')) {
+          node.setAttribute('role', 'gridcell');
+        }
+        row.cells.splice(position, 0, node);
+        position += 1;
+        changed = true;
+      });
+    }
+    if (changed) {
+      this.#countColumns();
+    }
+    return changed;
+  }
+
+  #startObservingLightDom(): void {
+    if (!this.#mutationObserver) {
+      this.#mutationObserver = new MutationObserver((mutations) => {
+        this.#handleLightDomMutations(mutations);
+      });
+    } else {
+      this.#mutationObserver.disconnect();
+    }
+
+    this.#mutationObserver.observe(this, { childList: true });
+  }
+
+  #stopObservingLightDom(): void {
+    if (this.#mutationObserver) {
+      this.#mutationObserver.disconnect();
+      this.#mutationObserver = null;
+    }
+  }
+
+  #handleLightDomMutations(mutations: MutationRecord[]): void {
+    let changed = false;
+
+    for (const mutation of mutations) {
+      // Rows added in the same task sit next to each other in the light DOM
+      // before they are captured, so a sibling that already became a row
+      // gives the position.
+      let position = this.#rowIndex(mutation.nextSibling);
+      if (position === -1) {
+        const previous = this.#rowIndex(mutation.previousSibling);
+        position = previous === -1 ? this.#rows.length : previous + 1;
+      }
+      mutation.addedNodes.forEach((node) => {
+        if (node.parentNode !== this) {
+          return;
+        }
+        if (node instanceof HTMLElement) {
+          const element = node;
+          this.#capturedElements.add(element);
+          element.remove();
+          position = this.#placeRow(position, element) + 1;
+          changed = true;
+        } else {
+          this.removeChild(node);
+        }
+      });
+
+      mutation.removedNodes.forEach((node) => {
+        if (!(node instanceof HTMLElement)) {
+          return;
+        }
+        if (this.#capturedElements.delete(node)) {
+          return;
+        }
+        const index = this.#rows.findIndex((row) => row.element === node);
+        if (index !== -1) {
+          this.#removeRow(index);
+          changed = true;
+        }
+      });
+    }
+
+    if (changed) {
+      this.#updateVirtualizerOptions();
+    }
+  }
+
+  #setupShadowDom(): void {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '';
+
+    const style = document.createElement('style');
+    style.textContent = VIRTUAL_GRID_STYLES;
+
+    const scroll = document.createElement('div');
+    scroll.className = 'scroll';
+    scroll.part = 'scroll';
+
+    const sizer = document.createElement('div');
+    sizer.className = 'sizer';
+    sizer.part = 'sizer';
+
+    const itemsContainer = document.createElement('div');
+    itemsContainer.className = 'items';
+    itemsContainer.part = 'items';
+
+    sizer.appendChild(itemsContainer);
+    scroll.appendChild(sizer);
+
+    itemsContainer.addEventListener('keydown', (event) => this.#handleKeyDown(event));
+    itemsContainer.addEventListener('focusin', (event) => this.#handleFocusIn(event));
+
+    shadow.append(style, scroll);
+
+    this.#scrollElement = scroll;
+    this.#sizerElement = sizer;
+    this.#itemsContainer = itemsContainer;
+  }
+
+  #mountVirtualizers(): void {
+    if (!this.#scrollElement || !this.#itemsContainer) {
+      return;
+    }
+
+    if (this.#rowVirtualizer && this.#columnVirtualizer) {
+      this.#updateVirtualizerOptions();
+      return;
+    }
+
+    const rows = new Virtualizer<HTMLDivElement, HTMLElement>(this.#createOptions('rows'));
+    const columns = new Virtualizer<HTMLDivElement, HTMLElement>(this.#createOptions('columns'));
+    this.#rowVirtualizer = rows;
+    this.#columnVirtualizer = columns;
+    for (const virtualizer of [rows, columns]) {
+      virtualizer._willUpdate();
+      this.#cleanups.push(virtualizer._didMount());
+    }
+    this.#render();
+  }
+
+  #teardownVirtualizers(): void {
+    for (const cleanup of this.#cleanups) {
+      cleanup();
+    }
+    this.#cleanups = [];
+    this.#rowVirtualizer = null;
+    this.#columnVirtualizer = null;
+  }
+
+  #createOptions(axis: Axis): VirtualizerOptions<HTMLDivElement, HTMLElement> {
+    const columns = axis === 'columns';
+    return {
+      count: columns ? this.#columnCount : this.#rows.length,
+      getScrollElement: () => this.#scrollElement,
+      estimateSize: (index: number) =>
+        columns ? this.#getColumnSize(index) : this.#getRowSize(index),
+      scrollToFn: elementScroll,
+      observeElementRect,
+      observeElementOffset,
+      onChange: (instance: Virtualizer<HTMLDivElement, HTMLElement>) => {
+        if (instance === this.#rowVirtualizer || instance === this.#columnVirtualizer) {
+          this.#render();
+        }
+      },
+      overscan: this.#overscan,
+      horizontal: columns,
+    };
+  }
+
+  #getRowSize(index: number): number {
+    return this.#parseSize(this.#rows[index]?.element, this.#estimateSize);
+  }
+
+  #getColumnSize(index: number): number {
+    // Column sizes are declared on the cells of the first row.
+    return this.#parseSize(this.#rows[0]?.cells[index], this.#columnEstimateSize);
+  }
+
+  #parseSize(element: HTMLElement | undefined, fallback: number): number {
+    const attr = element?.getAttribute('data-estimate-size');
+    if (attr) {
+      const parsed = Number(attr);
+      if (Number.isFinite(parsed)) {
+        return parsed;
+      }
+    }
+    return fallback;
+  }
+
+  #updateVirtualizerOptions(): void {
+    if (!this.#rowVirtualizer || !this.#columnVirtualizer) {
+      return;
+    }
+
+    this.#rowVirtualizer._willUpdate();
+    this.#rowVirtualizer.setOptions(this.#createOptions('rows'));
+    this.#rowVirtualizer.measure();
+    this.#columnVirtualizer._willUpdate();
+    this.#columnVirtualizer.setOptions(this.#createOptions('columns'));
+    this.#columnVirtualizer.measure();
+    this.#render();
+  }
+
+  #render(): void {
+    if (!this.#rowVirtualizer || !this.#columnVirtualizer || !this.#itemsContainer || !this.#sizerElement) {
+      return;
+    }
+
+    // Pick up cells added or removed since the last frame before re-attaching.
+    const records = this.#rowObserver?.takeRecords() ?? [];
+    if (records.length > 0 && this.#handleRowMutations(records)) {
+      this.#updateVirtualizerOptions();
+      return;
+    }
+
+    const virtualRows = this.#rowVirtualizer.getVirtualItems();
+    const virtualColumns = this.#columnVirtualizer.getVirtualItems();
+    const totalWidth = this.#columnVirtualizer.getTotalSize();
+
+    this.#sizerElement.style.height = `${this.#rowVirtualizer.getTotalSize()}px`;
+    this.#sizerElement.style.width = `${totalWidth}px`;
+
+    updateAttribute(this, 'aria-rowcount', String(this.#rows.length));
+    updateAttribute(this, 'aria-colcount', String(this.#columnCount));
+
+    // Only rows and cells entering or leaving the viewport are attached or
+    // detached; the rest stay in place.
+    const rendered: HTMLElement[] = [];
+    const mounted: HTMLElement[] = [];
+    let activeCell: HTMLElement | null = null;
+    for (const virtualRow of virtualRows) {
+      const row = this.#rows[virtualRow.index];
+      if (!row) {
+        continue;
+      }
+
+      updateAttribute(row.element, 'aria-rowindex', String(virtualRow.index + 1));
+      row.element.style.top = `${virtualRow.start}px`;
+      row.element.style.height = `${virtualRow.size}px`;
+      row.element.style.width = `${totalWidth}px`;
+
+      const cells: HTMLElement[] = [];
+      for (const virtualColumn of virtualColumns) {
+        const cell = row.cells[virtualColumn.index];
+        if (!cell) {
+          continue;
+        }
+        updateAttribute(cell, 'aria-colindex', String(virtualColumn.index + 1));
+        cell.style.left = `${virtualColumn.start}px`;
+        cell.style.width = `${virtualColumn.size}px`;
+        cells.push(cell);
+        if (virtualRow.index === this.#activeRow && virtualColumn.index === this.#activeColumn) {
+          activeCell = cell;
+        }
+      }
+      mounted.push(...cells);
+      reconcileChildren(row.element, cells);
+      rendered.push(row.element);
+    }
+
+    reconcileChildren(this.#itemsContainer, rendered);
+    // Cells moved above are already accounted for.
+    this.#rowObserver?.takeRecords();
+
+    // One cell is tabbable: the active one, or the first mounted cell while
+    // the active one is scrolled away.
+    const tabbable = activeCell ?? mounted[0];
+    for (const cell of mounted) {
+      updateAttribute(cell, 'tabindex', cell === tabbable ? '0' : '-1');
+    }
+    if (this.#focusPending && activeCell) {
+      this.#focusPending = false;
+      activeCell.focus({ preventScroll: true });
+    }
+  }
+
+  /** Row and column of a rendered cell, read from its ARIA indices. */
+  #cellPosition(node: EventTarget | null): { row: number; column: number } | null {
+    if (!(node instanceof HTMLElement) || !(node.parentNode instanceof HTMLElement)) {
+      return null;
+    }
+    if (!this.#rowsByElement.get(node.parentNode)?.cells.includes(node)) {
+      return null;
+    }
+    const row = Number(node.parentNode.getAttribute('aria-rowindex')) - 1;
+    const column = Number(node.getAttribute('aria-colindex')) - 1;
+    return row >= 0 && column >= 0 ? { row, column } : null;
+  }
+
+  #handleFocusIn(event: FocusEvent): void {
+    const position = this.#cellPosition(event.target);
+    if (position) {
+      this.#focusPending = false;
+      this.#activeRow = position.row;
+      this.#activeColumn = position.column;
+      this.#render();
+    }
+  }
+
+  /**
+   * Arrow keys move between cells, Home and End to the ends of the row (of
+   * the grid with Ctrl) and PageUp and PageDown by a viewport of rows.
+   */
+  #handleKeyDown(event: KeyboardEvent): void {
+    // Only handle keys pressed on a cell itself, not on controls inside it.
+    const position = this.#cellPosition(event.target);
+    if (!position || event.altKey || event.metaKey) {
+      return;
+    }
+
+    const range = this.#rowVirtualizer?.range;
+    const page = Math.max(1, range ? range.endIndex - range.startIndex : 1);
+    let { row, column } = position;
+    switch (event.key) {
+      case 'ArrowRight':
+        column += 1;
+        break;
+      case 'ArrowLeft':
+        column -= 1;
+        break;
+      case 'ArrowDown':
+        row += 1;
+        break;
+      case 'ArrowUp':
+        row -= 1;
+        break;
+      case 'PageDown':
+        row += page;
+        break;
+      case 'PageUp':
+        row -= page;
+        break;
+      case 'Home':
+        column = 0;
+        row = event.ctrlKey ? 0 : row;
+        break;
+      case 'End':
+        column = this.#columnCount - 1;
+        row = event.ctrlKey ? this.#rows.length - 1 : row;
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    this.#focusCell(row, column);
+  }
+
+  /** Makes a cell the active one, scrolling it into view and focusing it once mounted. */
+  #focusCell(rowIndex: number, columnIndex: number): void {
+    const row = Math.min(Math.max(0, rowIndex), this.#rows.length - 1);
+    const cells = this.#rows[row]?.cells.length ?? 0;
+    if (!this.#rowVirtualizer || !this.#columnVirtualizer || cells === 0) {
+      return;
+    }
+    const column = Math.min(Math.max(0, columnIndex), cells - 1);
+
+    this.#activeRow = row;
+    this.#activeColumn = column;
+    this.#focusPending = true;
+    this.#rowVirtualizer.scrollToIndex(row);
+    this.#columnVirtualizer.scrollToIndex(column);
+    this.#render();
+  }
+
+  // Captured rows are not in the light DOM, so inserting next to one, or
+  // before all of them, is handled here rather than by the observer.
+  override insertBefore<T extends Node>(node: T, child: Node | null): T {
+    const index = this.#rowIndex(child);
+    if (index === -1) {
+      return super.insertBefore(node, child);
+    }
+    this.#insertRows(index, [node]);
+    return node;
+  }
+
+  override prepend(...nodes: Array<Node | string>): void {
+    this.#insertRows(0, nodes);
+  }
+
+  #insertRows(index: number, nodes: Array<Node | string>): void {
+    let position = index;
+    for (const entry of nodes) {
+      const elements = entry instanceof DocumentFragment ? Array.from(entry.children) : [entry];
+      for (const element of elements) {
+        if (!(element instanceof HTMLElement)) {
+          continue;
+        }
+        if (element.parentNode === this) {
+          this.#capturedElements.add(element);
+        }
+        element.remove();
+        position = this.#placeRow(position, element) + 1;
+      }
+    }
+    this.#updateVirtualizerOptions();
+  }
+
+  override removeChild<T extends Node>(child: T): T {
+    if (child instanceof HTMLElement) {
+      const index = this.#rows.findIndex((row) => row.element === child);
+      if (index !== -1) {
+        if (child.parentNode) {
+          child.parentNode.removeChild(child);
+        }
+        this.#removeRow(index);
+        this.#updateVirtualizerOptions();
+        return child;
+      }
+    }
+
+    return super.removeChild(child);
+  }
+}
@@ -1,18 +1,246 @@
 import {
   Virtualizer,
+  defaultRangeExtractor,
   elementScroll,
   measureElement,
   observeElementOffset,
   observeElementRect,
+  observeWindowOffset,
+  observeWindowRect,
+  windowScroll,
 } from '@tanstack/virtual-core';
-import type { VirtualizerOptions } from '@tanstack/virtual-core';
+import type { Range, ScrollToOptions, VirtualItem, VirtualizerOptions } from '@tanstack/virtual-core';
+import { reconcileChildren, updateAttribute } from './dom';
+import { VIRTUAL_LIST_STYLES } from './styles';
 
 type Orientation = 'vertical' | 'horizontal';
 
-type InstanceGetter = () => Virtualizer<HTMLDivElement, HTMLElement>;
+export type VirtualListSelectionMode = 'none' | 'single' | 'multiple';
+
+type ScrollContainer = Element | Window;
+
+/** Element and window scrolling are typed apart, as TanStack Virtual does. */
+type ListVirtualizer = Virtualizer<Element, HTMLElement> | Virtualizer<Window, HTMLElement>;
+
+type ScrollFunctions<S extends ScrollContainer> = Pick<
+  VirtualizerOptions<S, HTMLElement>,
+  'scrollToFn' | 'observeElementRect' | 'observeElementOffset'
+>;
+
+export type VirtualListKey = number | string | bigint;
+
+/**
+ * Creates (or updates) the element for a data item. `recycled` is an element
+ * previously returned by this callback that is no longer on screen; return it
+ * after updating it to avoid allocating new nodes while scrolling.
+ */
+export type VirtualListRenderItem<T> = (data: T, index: number, recycled?: HTMLElement) => HTMLElement;
+
+export type VirtualListScrollOptions = ScrollToOptions;
+
+export type VirtualListGetKey<T> = (data: T, index: number) => VirtualListKey;
+
+export type VirtualListIsSticky<T> = (data: T, index: number) => boolean;
+
+export interface VirtualListRangeChangeDetail {
+  /** First index inside the visible viewport. */
+  startIndex: number;
+  /** Last index inside the visible viewport. */
+  endIndex: number;
+  /** First rendered index, including overscan. */
+  overscanStart: number;
+  /** Last rendered index, including overscan. */
+  overscanEnd: number;
+}
+
+export interface VirtualListScrollDetail {
+  scrollOffset: number;
+}
+
+export interface VirtualListItemDetail {
+  element: HTMLElement;
+  index: number;
+  key: VirtualListKey;
+}
+
+export interface VirtualListPlaceholderSwapDetail {
+  /** First index swapped back in from a placeholder. */
+  startIndex: number;
+  /** Last index swapped back in from a placeholder. */
+  endIndex: number;
+}
+
+export type VirtualListLoadDirection = 'start' | 'end';
+
+export interface VirtualListLoadDetail {
+  direction: VirtualListLoadDirection;
+  /**
+   * Marks the load as in flight until `promise` settles: the loading
+   * indicator is shown, `aria-busy` is set and no further load is requested
+   * for this direction meanwhile.
+   */
+  waitUntil(promise: PromiseLike<unknown>): void;
+}
+
+export type VirtualListLoadMore = (direction: VirtualListLoadDirection) => unknown;
+
+/** Serializable snapshot of a list's scroll position and measured sizes. */
+export interface VirtualListState {
+  /** Scroll offset from the start of the list, in pixels. */
+  scrollOffset: number;
+  /** Key of the first visible item, used to find it again if items moved. */
+  anchorKey: VirtualListKey | null;
+  /** How far the list was scrolled past the start of the anchor item. */
+  anchorOffset: number;
+  /** Measured item sizes, keyed by item key. */
+  sizes: Array<[VirtualListKey, number]>;
+}
+
+/** The first visible item and how far the viewport starts past it. */
+interface ScrollAnchor {
+  index: number;
+  key: VirtualListKey | null;
+  element: HTMLElement | undefined;
+  offset: number;
+  /** The item count the anchor was captured against. */
+  count: number;
+}
+
+interface LoadThreshold {
+  value: number;
+  unit: 'items' | 'px';
+}
+
+export interface VirtualListSelectionChangeDetail {
+  selectedIndices: number[];
+}
+
+export type VirtualListFilter<T> = (item: T, index: number) => boolean;
+
+export type VirtualListSort<T> = (a: T, b: T) => number;
+
+export type VirtualListGetItemText<T> = (data: T, index: number) => string;
+
+export type VirtualListSearchPredicate<T> = (item: T, index: number) => boolean;
+
+export interface VirtualListViewChangeDetail {
+  /** Number of items in the view after filtering. */
+  count: number;
+  /** Number of items before filtering. */
+  total: number;
+}
+
+/** Returns the child entries of a data item in tree mode. */
+export type VirtualListGetChildren<T> = (data: T) => readonly T[] | null | undefined;
+
+export interface VirtualListExpandedChangeDetail {
+  /** Index of the expanded or collapsed item in the view. */
+  index: number;
+  key: VirtualListKey;
+  expanded: boolean;
+}
+
+export interface VirtualListReorderDetail {
+  /** Index of the moved item before the move. */
+  fromIndex: number;
+  /** Index the item ends up at once the move is applied. */
+  toIndex: number;
+}
+
+/**
+ * Events dispatched by the list, on top of those of any element. The
+ * scrolling events carry a `virtual` prefix so they are not mistaken for
+ * the native `scrollend`.
+ */
+export interface VirtualListEventMap extends HTMLElementEventMap {
+  rangechange: CustomEvent<VirtualListRangeChangeDetail>;
+  virtualscrollstart: CustomEvent<VirtualListScrollDetail>;
+  virtualscrollend: CustomEvent<VirtualListScrollDetail>;
+  selectionchange: CustomEvent<VirtualListSelectionChangeDetail>;
+  viewchange: CustomEvent<VirtualListViewChangeDetail>;
+  expandedchange: CustomEvent<VirtualListExpandedChangeDetail>;
+  reorder: CustomEvent<VirtualListReorderDetail>;
+  itemmount: CustomEvent<VirtualListItemDetail>;
+  itemunmount: CustomEvent<VirtualListItemDetail>;
+  itemvisible: CustomEvent<VirtualListItemDetail>;
+  itemhidden: CustomEvent<VirtualListItemDetail>;
+  placeholderswap: CustomEvent<VirtualListPlaceholderSwapDetail>;
+  loadmore: CustomEvent<VirtualListLoadDetail>;
+  loadprevious: CustomEvent<VirtualListLoadDetail>;
+}
+
+interface DragState {
+  fromIndex: number;
+  /** Index of the item the placeholder is rendered before; `count` for the end. */
+  position: number;
+  keyboard: boolean;
+}
+
+interface RenderedEntry {
+  element: HTMLElement;
+  index: number;
+}
+
+/** An item attached to the items container, as of the last render. */
+interface MountedItem {
+  index: number;
+  key: VirtualListKey;
+  visible: boolean;
+}
+
+/** The children the items container should hold, and the children of each group wrapper in it. */
+interface ItemsLayout {
+  nodes: Node[];
+  groups: Map<HTMLDivElement, Node[]>;
+}
+
+/** Parent of each pool (or flattened data) index, and children by parent; `-1` is the root. */
+interface TreeStructure {
+  parents: number[];
+  children: Map<number, number[]>;
+}
+
+/** Position of a node shown in the tree view. */
+interface TreeNode {
+  level: number;
+  posInSet: number;
+  setSize: number;
+  expandable: boolean;
+}
+
+interface RenderedItem<T> {
+  element: HTMLElement;
+  data: T;
+  index: number;
+}
 
 const DEFAULT_ESTIMATE = 48;
 const DEFAULT_OVERSCAN = 2;
+const DEFAULT_MIN_LANE_SIZE = 200;
+/** Scroll speed, in pixels per second, above which placeholders replace items. */
+const DEFAULT_PLACEHOLDER_VELOCITY = 2500;
+const DRAG_THRESHOLD = 4;
+const AUTO_SCROLL_EDGE = 48;
+const AUTO_SCROLL_MAX_STEP = 20;
+const TYPEAHEAD_TIMEOUT = 500;
+// Upper bound on frames a scroll promise waits for the target to settle.
+const MAX_SCROLL_SETTLE_FRAMES = 60;
+const END_TOLERANCE = 2;
+
+const ELEMENT_SCROLL: ScrollFunctions<Element> = {
+  scrollToFn: elementScroll,
+  observeElementRect,
+  observeElementOffset,
+};
+
+const WINDOW_SCROLL: ScrollFunctions<Window> = {
+  scrollToFn: windowScroll,
+  observeElementRect: observeWindowRect,
+  observeElementOffset: observeWindowOffset,
+};
+
+/** Most recently measured sizes kept in `sessionStorage` under `persist-key`. */
+const MAX_PERSISTED_SIZES = 500;
 
 const NUMBER_ATTRIBUTES = new Set([
   'overscan',
@@ -21,21 +249,181 @@ const NUMBER_ATTRIBUTES = new Set([
   'padding-end',
   'scroll-padding-start',
   'scroll-padding-end',
+  'min-lane-size',
+  'placeholder-velocity',
 ]);
 
-export class VirtualListElement extends HTMLElement {
+// Light-DOM children assigned to these slots stay in place instead of being pooled.
+const LIGHT_DOM_SLOTS = new Set(['loading', 'scroll-placeholder']);
+
+const UPGRADABLE_PROPERTIES = [
+  'items',
+  'renderItem',
+  'getKey',
+  'isSticky',
+  'loadMore',
+  'scrollTarget',
+  'filter',
+  'sort',
+  'getItemText',
+  'getChildren',
+] as const;
+
+/** Static snapshot of the pool standing in for the host's `childNodes` and `querySelectorAll()`. */
+class PoolNodeList<N extends Node> implements NodeListOf<N> {
+  [index: number]: N;
+  readonly length: number;
+  readonly #nodes: readonly N[];
+
+  constructor(nodes: readonly N[]) {
+    this.#nodes = nodes;
+    this.length = nodes.length;
+    nodes.forEach((node, index) => {
+      this[index] = node;
+    });
+  }
+
+  // `NodeListOf` types this as never null; out of range it is, as in the DOM.
+  item(index: number): N;
+  item(index: number): N | null {
+    return this.#nodes[index] ?? null;
+  }
+
+  forEach(callback: (value: N, key: number, parent: NodeListOf<N>) => void, thisArg?: unknown): void {
+    this.#nodes.forEach((node, index) => callback.call(thisArg, node, index, this));
+  }
+
+  entries(): ArrayIterator<[number, N]> {
+    return this.#nodes.entries();
+  }
+
+  keys(): ArrayIterator<number> {
+    return this.#nodes.keys();
+  }
+
+  values(): ArrayIterator<N> {
+    return this.#nodes.values();
+  }
+
+  [Symbol.iterator](): ArrayIterator<N> {
+    return this.#nodes.values();
+  }
+}
+
+/** Static snapshot of the pool standing in for the host's `children`. */
+class PoolCollection implements HTMLCollection {
+  [index: number]: Element;
+  readonly length: number;
+  readonly #elements: readonly Element[];
+
+  constructor(elements: readonly Element[]) {
+    this.#elements = elements;
+    this.length = elements.length;
+    elements.forEach((element, index) => {
+      this[index] = element;
+    });
+  }
+
+  item(index: number): Element | null {
+    return this.#elements[index] ?? null;
+  }
+
+  namedItem(name: string): Element | null {
+    return this.#elements.find((element) => element.id === name || element.getAttribute('name') === name) ?? null;
+  }
+
+  [Symbol.iterator](): ArrayIterator<Element> {
+    return this.#elements.values();
+  }
+}
+
+/** The list each pooled node belongs to, so moving a node between lists updates both. */
+const poolOwners = new WeakMap<Node, HTMLElement>();
+
+/** Parses markup the way `innerHTML` does, without running scripts. */
+const parseHTML = (html: string): DocumentFragment => {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  return document.importNode(template.content, true);
+};
+
+/** Whether a `loadMore` result is a promise, or something awaitable like one. */
+const isThenable = (value: unknown): value is PromiseLike<unknown> =>
+  typeof value === 'object' && value !== null && 'then' in value && typeof value.then === 'function';
+
+/** Whether a value parsed from storage has the shape of a `getState()` snapshot. */
+const isVirtualListState = (value: unknown): value is VirtualListState =>
+  typeof value === 'object' &&
+  value !== null &&
+  'scrollOffset' in value &&
+  typeof value.scrollOffset === 'number' &&
+  'sizes' in value &&
+  Array.isArray(value.sizes);
+
+/** Returns the direct child of `parent` carrying `className`, if any. */
+const findChild = (parent: ParentNode, className: string): HTMLDivElement | null => {
+  for (const child of Array.from(parent.children)) {
+    if (child instanceof HTMLDivElement && child.classList.contains(className)) {
+      return child;
+    }
+  }
+  return null;
+};
+
+/** Adds or removes one token of an item's `part` attribute, leaving author tokens alone. */
+const togglePart = (element: Element, token: string, force: boolean): void => {
+  const current = element.getAttribute('part');
+  const tokens = current ? current.split(/\s+/).filter(Boolean) : [];
+  const present = tokens.includes(token);
+  if (present === force) {
+    return;
+  }
+  const next = force ? tokens.concat(token) : tokens.filter((entry) => entry !== token);
+  if (next.length > 0) {
+    element.setAttribute('part', next.join(' '));
+  } else {
+    element.removeAttribute('part');
+  }
+};
+
+export class VirtualListElement<T = unknown> extends HTMLElement {
+  static formAssociated = true;
+
   static get observedAttributes(): string[] {
-    return Array.from(NUMBER_ATTRIBUTES).concat('orientation');
+    return Array.from(NUMBER_ATTRIBUTES).concat(
+      'orientation',
+      'selection-mode',
+      'load-more-threshold',
+      'lanes',
+      'scroll-target',
+      'reverse',
+      'anchor',
+      'reorderable',
+      'findable',
+      'name',
+      'required',
+      'tree',
+      'anchoring',
+      'item-size',
+    );
   }
 
-  #virtualizer: Virtualizer<HTMLDivElement, HTMLElement> | null = null;
+  #virtualizer: ListVirtualizer | null = null;
   #virtualizerCleanup: (() => void) | null = null;
+  /** Hands fresh options to the virtualizer, typed for its kind of scroll target. */
+  #setVirtualizerOptions: (() => void) | null = null;
+  /** Set while pool changes wait for the microtask that hands them to the virtualizer. */
+  #updateQueued = false;
   #items: HTMLElement[] = [];
+  /** Logical children of the host: the pooled items and the text and comments around them. */
+  #nodes: ChildNode[] = [];
+  #nodeIndex = new Map<Node, number>();
   #scrollElement: HTMLDivElement | null = null;
   #sizerElement: HTMLDivElement | null = null;
   #itemsContainer: HTMLDivElement | null = null;
   #initialized = false;
   #mutationObserver: MutationObserver | null = null;
+  #itemsObserver: MutationObserver | null = null;
   #orientation: Orientation = 'vertical';
   #estimateSize = DEFAULT_ESTIMATE;
   #overscan = DEFAULT_OVERSCAN;
@@ -44,408 +432,3686 @@ export class VirtualListElement extends HTMLElement {
   #scrollPaddingStart = 0;
   #scrollPaddingEnd = 0;
   #rafId: number | null = null;
-  #capturedElements = new Set<HTMLElement>();
+  #capturedNodes = new Set<Node>();
+  #data: readonly T[] | null = null;
+  #renderItem: VirtualListRenderItem<T> | null = null;
+  #getKey: VirtualListGetKey<T> | null = null;
+  #rendered = new Map<VirtualListKey, RenderedItem<T>>();
+  #recyclePool: HTMLElement[] = [];
+  #hydratedItems = new Map<number, HTMLElement>();
+  #lastRange: VirtualListRangeChangeDetail = { startIndex: -1, endIndex: -1, overscanStart: -1, overscanEnd: -1 };
+  #scrolling = false;
+  #placeholderVelocity = DEFAULT_PLACEHOLDER_VELOCITY;
+  #showingPlaceholders = false;
+  #scrollSample: { offset: number; time: number } | null = null;
+  #scrollPlaceholders = new WeakSet<Element>();
+  #scrollPlaceholderPool: HTMLDivElement[] = [];
+  #mountedItems = new Map<HTMLElement, MountedItem>();
+  #activeIndex = 0;
+  #retainedElement: HTMLElement | null = null;
+  #positionedElements = new WeakSet<HTMLElement>();
+  #lanes: number | 'auto' = 1;
+  #scrollTarget: ScrollContainer | null = null;
+  #isSticky: VirtualListIsSticky<T> | null = null;
+  #stickyIndexes: number[] = [];
+  #activeStickyIndex = -1;
+  #stuckElement: HTMLElement | null = null;
+  #groupElements = new WeakMap<HTMLElement, HTMLDivElement>();
+  #groupWrappers = new WeakSet<Element>();
+  #minLaneSize = DEFAULT_MIN_LANE_SIZE;
+  #restoringFocus = false;
+  #selectionMode: VirtualListSelectionMode = 'none';
+  #selectedKeys = new Set<VirtualListKey>();
+  #selectionAnchor: number | null = null;
+  #loadThreshold: LoadThreshold | null = null;
+  #anchorEnd = false;
+  #filter: VirtualListFilter<T> | null = null;
+  #sort: VirtualListSort<T> | null = null;
+  // Pool indices in view order while a filter or sort is applied.
+  #view: number[] | null = null;
+  #viewCount = -1;
+  #viewChanged = false;
+  #treeAttribute = false;
+  #getChildren: VirtualListGetChildren<T> | null = null;
+  // The nested `items` as assigned; `#data` then holds them flattened in
+  // depth-first order, with the parent of each entry in `#dataParents`.
+  #nestedData: readonly T[] | null = null;
+  #dataParents: number[] | null = null;
+  #treeStructure: TreeStructure | null = null;
+  // Expanding or collapsing only changes the view, not the structure.
+  #reuseTreeStructure = false;
+  #treeNodes: Map<number, TreeNode> | null = null;
+  #expandedKeys = new Set<VirtualListKey>();
+  #seenTreeItems = new WeakSet<HTMLElement>();
+  #getItemTextCallback: VirtualListGetItemText<T> | null = null;
+  #searchQuery: string | VirtualListSearchPredicate<T> | null = null;
+  #matches: number[] = [];
+  #matchKeys = new Set<VirtualListKey>();
+  #currentMatchKey: VirtualListKey | null = null;
+  #typeahead = '';
+  #typeaheadTimer: ReturnType<typeof setTimeout> | null = null;
+  #findable = false;
+  #findProxyContainer: HTMLDivElement | null = null;
+  #findProxies: HTMLElement[] = [];
+  #detachedProxies = new Set<number>();
+  // Proxy text by the data entry or item it was read from, so updates only
+  // read the text of new or edited items.
+  #findTexts = new Map<unknown, string>();
+  #findObserver: MutationObserver | null = null;
+  #findWatched = new WeakSet<HTMLElement>();
+  #reorderable = false;
+  #drag: DragState | null = null;
+  #pointerOrigin: { x: number; y: number; index: number } | null = null;
+  #pointerPosition: { x: number; y: number } | null = null;
+  #suppressClick = false;
+  #autoScrollPending = false;
+  #placeholder: HTMLDivElement | null = null;
+  #announcer: HTMLDivElement | null = null;
+  #onPointerMove = (event: PointerEvent) => this.#handlePointerMove(event);
+  #onPointerUp = () => this.#handlePointerUp();
+  #onPointerCancel = () => this.#cancelDrag();
+  #onDragKeyDown = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      this.#cancelDrag();
+    }
+  };
+  #loadMore: VirtualListLoadMore | null = null;
+  #loadingElement: HTMLDivElement | null = null;
+  // Item count when each direction last requested data; a direction is only
+  // requested again once the count has changed.
+  #lastLoadCount: Record<VirtualListLoadDirection, number> = { start: -1, end: -1 };
+  #pendingLoads: Record<VirtualListLoadDirection, number> = { start: 0, end: 0 };
+  /**
+   * Set by a `loadprevious` request until the update that settles it, so the
+   * updates in between anchor the view against prepended items.
+   */
+  #prependPending = false;
+  #anchoring = true;
+  /** Declared size of every item; `null` measures items instead. */
+  #itemSize: number | null = null;
+  #estimateObserver: MutationObserver | null = null;
+  #watchedEstimates = new WeakSet<HTMLElement>();
+  // Sizes measured so far by item key; they outlive the virtualizer so a
+  // remounted or restored list starts from real sizes instead of estimates.
+  #measuredSizes = new Map<VirtualListKey, number>();
+  // Set when items or keys may have gone, so updates only then look for
+  // sizes to forget.
+  #sizesNeedPruning = false;
+  #pendingState: VirtualListState | null = null;
+  #persistListener: (() => void) | null = null;
+  #internals: ElementInternals | null = null;
+  #required = false;
+  #formDisabled = false;
 
   constructor() {
     super();
+    // Older engines lack ElementInternals, or ship it without form support.
+    const internals = typeof this.attachInternals === 'function' ? this.attachInternals() : null;
+    this.#internals = internals && 'setFormValue' in internals ? internals : null;
   }
 
-  connectedCallback(): void {
-    if (!this.#initialized) {
-      this.#initialize();
-    } else {
-      this.#startObservingLightDom();
-      this.#mountVirtualizer();
-    }
+  override addEventListener<K extends keyof VirtualListEventMap>(
+    type: K,
+    listener: (this: this, event: VirtualListEventMap[K]) => unknown,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  override addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  override addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | AddEventListenerOptions,
+  ): void {
+    super.addEventListener(type, listener, options);
   }
 
-  disconnectedCallback(): void {
-    this.#stopObservingLightDom();
-    this.#teardownVirtualizer();
+  override removeEventListener<K extends keyof VirtualListEventMap>(
+    type: K,
+    listener: (this: this, event: VirtualListEventMap[K]) => unknown,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  override removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions,
+  ): void;
+  override removeEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject,
+    options?: boolean | EventListenerOptions,
+  ): void {
+    super.removeEventListener(type, listener, options);
   }
 
-  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
-    if (oldValue === newValue) {
-      return;
-    }
+  /**
+   * Data items to virtualize. When set, the list renders `items` through
+   * `renderItem` instead of using its light-DOM children, and only creates as
+   * many elements as are needed to fill the viewport.
+   */
+  get items(): readonly T[] | null {
+    return this.#nestedData ?? this.#data;
+  }
 
-    if (name === 'orientation') {
-      this.#orientation = newValue === 'horizontal' ? 'horizontal' : 'vertical';
-    } else if (NUMBER_ATTRIBUTES.has(name)) {
-      const parsed = newValue != null ? Number(newValue) : NaN;
-      const fallback = this.#fallbackForAttribute(name);
-      const next = Number.isFinite(parsed) ? parsed : fallback;
-      switch (name) {
-        case 'estimate-size':
-          this.#estimateSize = next;
-          break;
-        case 'overscan':
-          this.#overscan = Math.max(0, Math.floor(next));
-          break;
-        case 'padding-start':
-          this.#paddingStart = Math.max(0, next);
-          break;
-        case 'padding-end':
-          this.#paddingEnd = Math.max(0, next);
-          break;
-        case 'scroll-padding-start':
-          this.#scrollPaddingStart = Math.max(0, next);
-          break;
-        case 'scroll-padding-end':
-          this.#scrollPaddingEnd = Math.max(0, next);
-          break;
-      }
+  set items(value: readonly T[] | null) {
+    this.#setData(value ?? null);
+    if (!this.#data) {
+      this.#releaseRenderedItems();
     }
-
     this.#updateVirtualizerOptions();
   }
 
-  #fallbackForAttribute(name: string): number {
-    switch (name) {
-      case 'estimate-size':
-        return DEFAULT_ESTIMATE;
-      case 'overscan':
-        return DEFAULT_OVERSCAN;
-      default:
-        return 0;
-    }
+  get renderItem(): VirtualListRenderItem<T> | null {
+    return this.#renderItem;
   }
 
-  #initialize(): void {
-    this.#initialized = true;
+  set renderItem(value: VirtualListRenderItem<T> | null) {
+    this.#renderItem = value ?? null;
+    this.#releaseRenderedItems();
+    this.#updateVirtualizerOptions();
+  }
 
-    if (!this.hasAttribute('role')) {
-      this.setAttribute('role', 'list');
-    }
+  get getKey(): VirtualListGetKey<T> | null {
+    return this.#getKey;
+  }
 
-    this.#captureChildren();
-    this.#setupShadowDom();
-    this.#applyInitialAttributes();
-    this.#startObservingLightDom();
-    this.#mountVirtualizer();
+  set getKey(value: VirtualListGetKey<T> | null) {
+    this.#getKey = value ?? null;
+    this.#sizesNeedPruning = true;
+    this.#updateVirtualizerOptions();
   }
 
-  #captureChildren(): void {
-    const nodes = Array.from(this.childNodes);
-    const items: HTMLElement[] = [];
+  /**
+   * Current scroll offset of the list along its orientation, in pixels. With
+   * an external scroller it is measured from the start of the list.
+   */
+  get scrollOffset(): number {
+    return (this.#virtualizer?.scrollOffset ?? 0) - this.#scrollMargin();
+  }
 
-    for (const node of nodes) {
-      if (node.nodeType === Node.ELEMENT_NODE) {
-        const element = node as HTMLElement;
-        items.push(element);
-        if (!element.hasAttribute('role')) {
-          element.setAttribute('role', 'listitem');
-        }
-      }
-      this.removeChild(node);
+  /** Total virtual size of the list along its orientation, in pixels. */
+  get totalSize(): number {
+    return this.#virtualizer?.getTotalSize() ?? 0;
+  }
+
+  /**
+   * Scrolls the item at `index` into view. Resolves once the item is rendered
+   * and measured, which may take a few frames while dynamic sizes settle.
+   */
+  scrollToIndex(index: number, options: VirtualListScrollOptions = {}): Promise<void> {
+    this.#applyQueuedUpdate();
+    const count = this.#getCount();
+    if (!this.#virtualizer || count === 0) {
+      return Promise.resolve();
     }
 
-    this.#items = items;
+    const target = Math.min(Math.max(0, Math.floor(index)), count - 1);
+    this.#virtualizer.scrollToIndex(target, options);
+
+    return this.#whenScrollSettled((instance) => {
+      if (!instance.getVirtualItems().some((virtualItem) => virtualItem.index === target)) {
+        return false;
+      }
+      const offset = instance.getOffsetForIndex(target, options.align)?.[0];
+      return offset === undefined || Math.abs(offset - (instance.scrollOffset ?? 0)) < 1;
+    });
   }
 
-  #startObservingLightDom(): void {
-    if (!this.#mutationObserver) {
-      this.#mutationObserver = new MutationObserver((mutations) => {
-        this.#handleLightDomMutations(mutations);
-      });
-    } else {
-      this.#mutationObserver.disconnect();
+  /**
+   * Scrolls to a pixel offset from the start of the list. Resolves once the
+   * scroll position has settled.
+   */
+  scrollToOffset(offset: number, options: VirtualListScrollOptions = {}): Promise<void> {
+    this.#applyQueuedUpdate();
+    if (!this.#virtualizer) {
+      return Promise.resolve();
     }
 
-    this.#mutationObserver.observe(this, { childList: true });
+    const scrollOffset = offset + this.#scrollMargin();
+    this.#virtualizer.scrollToOffset(scrollOffset, options);
+
+    return this.#whenScrollSettled((instance) => {
+      const target = instance.getOffsetForAlignment(scrollOffset, options.align ?? 'start');
+      return Math.abs(target - (instance.scrollOffset ?? 0)) < 1;
+    });
   }
 
-  #stopObservingLightDom(): void {
-    if (this.#mutationObserver) {
-      this.#mutationObserver.disconnect();
-      this.#mutationObserver = null;
+  /**
+   * Scrolls to a pooled item element, whether or not it is currently mounted.
+   * Rejects if the element does not belong to this list.
+   */
+  scrollToItem(element: HTMLElement, options: VirtualListScrollOptions = {}): Promise<void> {
+    const index = this.#indexOfElement(element);
+    if (index === -1) {
+      return Promise.reject(new Error('Element is not an item of this virtual list'));
     }
+    return this.scrollToIndex(index, options);
   }
 
-  #handleLightDomMutations(mutations: MutationRecord[]): void {
-    const additions: HTMLElement[] = [];
-    const removals: HTMLElement[] = [];
-    let changed = false;
+  /**
+   * Moves keyboard focus to the item at `index`, scrolling it into view and
+   * mounting it first when it is not currently rendered.
+   */
+  async focusIndex(index: number): Promise<void> {
+    const count = this.#getCount();
+    if (count === 0) {
+      return;
+    }
 
-    for (const mutation of mutations) {
-      mutation.addedNodes.forEach((node) => {
-        if (node.nodeType === Node.ELEMENT_NODE) {
-          additions.push(node as HTMLElement);
-        } else if (node.parentNode === this) {
-          this.removeChild(node);
-        }
-      });
+    const target = Math.min(Math.max(0, Math.floor(index)), count - 1);
+    this.#activeIndex = target;
+    this.#refreshRenderedItems();
 
-      mutation.removedNodes.forEach((node) => {
-        if (node.nodeType === Node.ELEMENT_NODE) {
-          removals.push(node as HTMLElement);
-        }
-      });
+    let element = this.#getRenderedElement(target);
+    if (element) {
+      void this.scrollToIndex(target);
+    } else {
+      await this.scrollToIndex(target);
+      element = this.#getRenderedElement(target);
     }
 
-    if (additions.length > 0) {
-      for (const element of additions) {
-        if (!element.hasAttribute('role')) {
-          element.setAttribute('role', 'listitem');
-        }
-        if (element.parentNode === this) {
-          this.#capturedElements.add(element);
-          element.remove();
-        }
-        this.#items.push(element);
-      }
-      changed = true;
+    // A later navigation may have superseded this one while we were scrolling.
+    if (element && this.#activeIndex === target) {
+      element.focus({ preventScroll: true });
     }
+  }
 
-    if (removals.length > 0) {
-      const additionSet = new Set(additions);
-      for (const element of removals) {
-        if (additionSet.has(element)) {
-          continue;
-        }
-        if (this.#capturedElements.has(element)) {
-          this.#capturedElements.delete(element);
-          continue;
-        }
-        const index = this.#items.indexOf(element);
-        if (index !== -1) {
-          this.#items.splice(index, 1);
-          changed = true;
-        }
+  /** Indices of the selected items, in ascending order. */
+  get selectedIndices(): number[] {
+    if (this.#selectedKeys.size === 0) {
+      return [];
+    }
+    const indices: number[] = [];
+    const count = this.#getCount();
+    for (let index = 0; index < count; index++) {
+      if (this.#selectedKeys.has(this.#getItemKey(index))) {
+        indices.push(index);
       }
     }
+    return indices;
+  }
+
+  set selectedIndices(indices: readonly number[]) {
+    const count = this.#getCount();
+    const valid = indices.filter((index) => Number.isInteger(index) && index >= 0 && index < count);
+    const allowed = this.#selectionMode === 'multiple' ? valid : valid.slice(0, this.#selectionMode === 'single' ? 1 : 0);
+    this.#selectedKeys = new Set(allowed.map((index) => this.#getItemKey(index)));
+    this.#selectionAnchor = allowed[0] ?? null;
+    this.#refreshRenderedItems();
+    this.#syncFormValue();
+  }
+
+  /** The selected entries of `items` in data mode; light-DOM lists use `selectedElements`. */
+  get selectedItems(): T[] {
+    return this.#data ? this.selectedIndices.map((index) => this.#dataAt(index)) : [];
+  }
+
+  /** The selected pooled elements of a light-DOM list; data mode uses `selectedItems`. */
+  get selectedElements(): HTMLElement[] {
+    return this.#data ? [] : this.selectedIndices.flatMap((index) => this.#itemAt(index) ?? []);
+  }
+
+  /**
+   * Marks data items as sticky section headers in data mode. Light-DOM items
+   * opt in with the `data-sticky` attribute instead.
+   */
+  get isSticky(): VirtualListIsSticky<T> | null {
+    return this.#isSticky;
+  }
+
+  set isSticky(value: VirtualListIsSticky<T> | null) {
+    this.#isSticky = value ?? null;
+    this.#updateVirtualizerOptions();
+  }
+
+  /**
+   * Called when the list scrolls within `load-more-threshold` of either end.
+   * Return a promise to keep the load in flight until it settles.
+   */
+  get loadMore(): VirtualListLoadMore | null {
+    return this.#loadMore;
+  }
+
+  set loadMore(value: VirtualListLoadMore | null) {
+    this.#loadMore = value ?? null;
+  }
+
+  /**
+   * Hides items for which the predicate returns `false`. Receives data
+   * entries in data mode and pooled elements otherwise, with their index in
+   * the unfiltered list. Indices everywhere else refer to the filtered view.
+   */
+  get filter(): VirtualListFilter<T> | null {
+    return this.#filter;
+  }
+
+  set filter(value: VirtualListFilter<T> | null) {
+    this.#filter = value ?? null;
+    this.#viewChanged = true;
+    this.#updateVirtualizerOptions();
+  }
+
+  /** Orders the view with a comparator, without moving the items themselves. */
+  get sort(): VirtualListSort<T> | null {
+    return this.#sort;
+  }
+
+  set sort(value: VirtualListSort<T> | null) {
+    this.#sort = value ?? null;
+    this.#viewChanged = true;
+    this.#updateVirtualizerOptions();
+  }
+
+  /**
+   * Returns the children of a data item and turns the list into a tree:
+   * `items` then holds the root entries, and indices everywhere refer to the
+   * visible nodes in depth-first order.
+   */
+  get getChildren(): VirtualListGetChildren<T> | null {
+    return this.#getChildren;
+  }
+
+  set getChildren(value: VirtualListGetChildren<T> | null) {
+    const items = this.items;
+    this.#getChildren = value ?? null;
+    this.#setData(items);
+    this.#releaseRenderedItems();
+    this.#syncHostRole();
+    this.#updateVirtualizerOptions();
+  }
+
+  /** Keys of the expanded tree nodes. */
+  get expandedKeys(): VirtualListKey[] {
+    return Array.from(this.#expandedKeys);
+  }
+
+  set expandedKeys(keys: readonly VirtualListKey[]) {
+    this.#expandedKeys = new Set(keys);
+    this.#updateTreeView();
+  }
+
+  /**
+   * Returns the searchable text of a data item, used by `search()`,
+   * typeahead and `findable`. Light-DOM items use their text content.
+   */
+  get getItemText(): VirtualListGetItemText<T> | null {
+    return this.#getItemTextCallback;
+  }
+
+  set getItemText(value: VirtualListGetItemText<T> | null) {
+    this.#getItemTextCallback = value ?? null;
+    this.#updateVirtualizerOptions();
+  }
+
+  /**
+   * External element (or `window`) that scrolls the list. Takes precedence
+   * over the `scroll-target` attribute; `null` falls back to it.
+   */
+  get scrollTarget(): Element | Window | null {
+    return this.#scrollTarget;
+  }
+
+  set scrollTarget(value: Element | Window | null) {
+    this.#scrollTarget = value ?? null;
+    this.#remountVirtualizer();
+  }
+
+  /** The form the list is associated with, if any. */
+  get form(): HTMLFormElement | null {
+    return this.#internals?.form ?? null;
+  }
+
+  /** Name under which the selected values are submitted. Reflects the `name` attribute. */
+  get name(): string {
+    return this.getAttribute('name') ?? '';
+  }
+
+  set name(value: string) {
+    this.setAttribute('name', value);
+  }
+
+  /** Whether a selection is required to submit the form. Reflects the `required` attribute. */
+  get required(): boolean {
+    return this.#required;
+  }
+
+  set required(value: boolean) {
+    this.toggleAttribute('required', value);
+  }
+
+  /**
+   * Value of the first selected item: its `data-value` (or text) for
+   * light-DOM items, its key in data mode. Empty when nothing is selected.
+   */
+  get value(): string {
+    const [first] = this.selectedIndices;
+    return first === undefined ? '' : this.#getItemValue(first);
+  }
+
+  get validity(): ValidityState | undefined {
+    return this.#internals?.validity;
+  }
+
+  get validationMessage(): string {
+    return this.#internals?.validationMessage ?? '';
+  }
+
+  get willValidate(): boolean {
+    return this.#internals?.willValidate ?? false;
+  }
+
+  checkValidity(): boolean {
+    return this.#internals?.checkValidity() ?? true;
+  }
+
+  reportValidity(): boolean {
+    return this.#internals?.reportValidity() ?? true;
+  }
+
+  /** Clears the selection when the owning form is reset. */
+  formResetCallback(): void {
+    this.#selectedKeys.clear();
+    this.#selectionAnchor = null;
+    this.#refreshRenderedItems();
+    this.#syncFormValue();
+  }
+
+  /** Reselects the items whose values were submitted when the page is restored. */
+  formStateRestoreCallback(state: string | File | FormData | null): void {
+    const values = new Set<string>();
+    if (typeof state === 'string') {
+      values.add(state);
+    } else if (state instanceof FormData) {
+      for (const [, value] of state) {
+        if (typeof value === 'string') {
+          values.add(value);
+        }
+      }
+    }
+
+    const indices: number[] = [];
+    const count = this.#getCount();
+    for (let index = 0; index < count && values.size > 0; index++) {
+      if (values.has(this.#getItemValue(index))) {
+        indices.push(index);
+      }
+    }
+    this.selectedIndices = indices;
+  }
+
+  /** Takes the items out of the tab order and ignores input while disabled. */
+  formDisabledCallback(disabled: boolean): void {
+    this.#formDisabled = disabled;
+    if (disabled) {
+      this.setAttribute('aria-disabled', 'true');
+      this.#cancelDrag();
+    } else {
+      this.removeAttribute('aria-disabled');
+    }
+    this.#refreshRenderedItems();
+    this.#syncFormValue();
+  }
+
+  /** Whether the tree node at `index` is expanded. */
+  isExpanded(index: number): boolean {
+    const source = this.#sourceIndex(index);
+    return source !== -1 && this.#expandedKeys.has(this.#getSourceKey(source));
+  }
+
+  /** Shows the children of the tree node at `index`. */
+  expand(index: number): void {
+    this.#setExpanded(index, true, false);
+  }
+
+  /** Hides the descendants of the tree node at `index`, without touching their elements. */
+  collapse(index: number): void {
+    this.#setExpanded(index, false, false);
+  }
+
+  /**
+   * Finds the items matching `query`, including items that are not rendered,
+   * and highlights them. A string matches case-insensitively against each
+   * item's text; a predicate receives the data entry or element. Returns the
+   * matching indices. An empty string clears the search.
+   */
+  search(query: string | VirtualListSearchPredicate<T>): number[] {
+    this.#searchQuery = query === '' ? null : query;
+    this.#currentMatchKey = null;
+    this.#runSearch();
+    this.#refreshRenderedItems();
+    return this.#matches.slice();
+  }
+
+  /** Scrolls to and highlights the next match, wrapping around. Resolves with its index, or -1. */
+  findNext(): Promise<number> {
+    return this.#findMatch(1);
+  }
+
+  /** Scrolls to and highlights the previous match, wrapping around. Resolves with its index, or -1. */
+  findPrevious(): Promise<number> {
+    return this.#findMatch(-1);
+  }
+
+  /**
+   * Captures the scroll position and measured sizes so they can be handed to
+   * `restoreState()` later, for example when a view is re-created.
+   */
+  getState(): VirtualListState {
+    this.#applyQueuedUpdate();
+    const instance = this.#virtualizer;
+    if (!instance) {
+      return this.#pendingState ?? { scrollOffset: 0, anchorKey: null, anchorOffset: 0, sizes: [] };
+    }
+
+    const index = instance.range?.startIndex ?? -1;
+    const start = index >= 0 && index < this.#getCount() ? instance.measurementsCache[index]?.start : undefined;
+    return {
+      scrollOffset: this.scrollOffset,
+      anchorKey: start !== undefined ? this.#getItemKey(index) : null,
+      anchorOffset: start !== undefined ? (instance.scrollOffset ?? 0) - start : 0,
+      sizes: Array.from(this.#measuredSizes),
+    };
+  }
+
+  /**
+   * Restores a snapshot taken by `getState()`. The anchor item is scrolled
+   * back into the same place when it can still be found; otherwise the raw
+   * scroll offset is used. Applied on connection if the list is not mounted.
+   */
+  restoreState(state: VirtualListState): void {
+    for (const [key, size] of state.sizes) {
+      this.#measuredSizes.set(key, size);
+    }
+    this.#pendingState = state;
+
+    // Applied right away when mounted, otherwise on the next connection.
+    this.#updateVirtualizerOptions();
+  }
+
+  connectedCallback(): void {
+    this.#pendingState ??= this.#readPersistedState();
+    if (this.#pendingState) {
+      for (const [key, size] of this.#pendingState.sizes) {
+        this.#measuredSizes.set(key, size);
+      }
+    }
+
+    if (!this.#initialized) {
+      this.#initialize();
+    } else {
+      this.#startObservingLightDom();
+      this.#mountVirtualizer();
+    }
+
+    if (typeof window !== 'undefined' && !this.#persistListener) {
+      // Full page navigations never disconnect the element.
+      this.#persistListener = () => this.#persistState(this.getState());
+      window.addEventListener('pagehide', this.#persistListener);
+    }
+  }
+
+  disconnectedCallback(): void {
+    this.#cancelDrag();
+    if (this.#virtualizer) {
+      this.#pendingState = this.getState();
+      this.#persistState(this.#pendingState);
+    }
+    if (this.#persistListener) {
+      window.removeEventListener('pagehide', this.#persistListener);
+      this.#persistListener = null;
+    }
+
+    this.#stopObservingLightDom();
+    this.#teardownVirtualizer();
+    this.#syncMountedItems([]);
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue === newValue) {
+      return;
+    }
+
+    if (name === 'orientation') {
+      this.#orientation = newValue === 'horizontal' ? 'horizontal' : 'vertical';
+    } else if (name === 'selection-mode') {
+      this.#setSelectionMode(newValue);
+    } else if (name === 'lanes') {
+      const parsed = Math.floor(Number(newValue));
+      this.#lanes = newValue === 'auto' ? 'auto' : Number.isFinite(parsed) && parsed > 1 ? parsed : 1;
+    } else if (name === 'load-more-threshold') {
+      this.#loadThreshold = this.#parseLoadThreshold(newValue);
+    } else if (name === 'reorderable') {
+      this.#reorderable = newValue !== null;
+      if (!this.#reorderable) {
+        this.#cancelDrag();
+      }
+    } else if (name === 'findable') {
+      this.#findable = newValue !== null;
+    } else if (name === 'item-size') {
+      const parsed = newValue !== null ? Number(newValue) : NaN;
+      this.#itemSize = Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+      // Sizes measured under the other mode no longer apply, and a fresh
+      // virtualizer drops the resize observers of previously measured items.
+      // Restored sizes still wait for the mount that applies them.
+      this.#measuredSizes = new Map(this.#pendingState?.sizes);
+      this.#syncItemSize();
+      this.#remountVirtualizer();
+      return;
+    } else if (name === 'anchoring') {
+      this.#anchoring = newValue !== 'none';
+      this.#applyAnchoring();
+      return;
+    } else if (name === 'tree') {
+      this.#treeAttribute = newValue !== null;
+      this.#syncHostRole();
+    } else if (name === 'name' || name === 'required') {
+      this.#required = this.hasAttribute('required');
+      if (this.#required) {
+        this.setAttribute('aria-required', 'true');
+      } else {
+        this.removeAttribute('aria-required');
+      }
+      this.#syncFormValue();
+      return;
+    } else if (name === 'reverse' || name === 'anchor') {
+      this.#anchorEnd = this.hasAttribute('reverse') || this.getAttribute('anchor') === 'end';
+    } else if (name === 'scroll-target') {
+      this.#remountVirtualizer();
+      return;
+    } else if (NUMBER_ATTRIBUTES.has(name)) {
+      const parsed = newValue != null ? Number(newValue) : NaN;
+      const fallback = this.#fallbackForAttribute(name);
+      const next = Number.isFinite(parsed) ? parsed : fallback;
+      switch (name) {
+        case 'estimate-size':
+          this.#estimateSize = next;
+          break;
+        case 'overscan':
+          this.#overscan = Math.max(0, Math.floor(next));
+          break;
+        case 'padding-start':
+          this.#paddingStart = Math.max(0, next);
+          break;
+        case 'padding-end':
+          this.#paddingEnd = Math.max(0, next);
+          break;
+        case 'scroll-padding-start':
+          this.#scrollPaddingStart = Math.max(0, next);
+          break;
+        case 'scroll-padding-end':
+          this.#scrollPaddingEnd = Math.max(0, next);
+          break;
+        case 'min-lane-size':
+          this.#minLaneSize = next > 0 ? next : DEFAULT_MIN_LANE_SIZE;
+          break;
+        case 'placeholder-velocity':
+          this.#placeholderVelocity = Math.max(0, next);
+          break;
+      }
+    }
+
+    this.#updateVirtualizerOptions();
+  }
+
+  #fallbackForAttribute(name: string): number {
+    switch (name) {
+      case 'estimate-size':
+        return DEFAULT_ESTIMATE;
+      case 'overscan':
+        return DEFAULT_OVERSCAN;
+      case 'min-lane-size':
+        return DEFAULT_MIN_LANE_SIZE;
+      case 'placeholder-velocity':
+        return DEFAULT_PLACEHOLDER_VELOCITY;
+      default:
+        return 0;
+    }
+  }
+
+  #parseLoadThreshold(value: string | null): LoadThreshold | null {
+    if (value == null) {
+      return null;
+    }
+    const trimmed = value.trim();
+    const unit = trimmed.endsWith('px') ? 'px' : 'items';
+    const parsed = Number(unit === 'px' ? trimmed.slice(0, -2) : trimmed);
+    return Number.isFinite(parsed) && parsed >= 0 ? { value: parsed, unit } : null;
+  }
+
+  #setSelectionMode(value: string | null): void {
+    const mode: VirtualListSelectionMode = value === 'single' || value === 'multiple' ? value : 'none';
+    if (mode === 'none') {
+      this.#selectedKeys.clear();
+      this.#selectionAnchor = null;
+    } else if (mode === 'single' && this.#selectedKeys.size > 1) {
+      const first = this.selectedIndices[0]!;
+      this.#selectedKeys = new Set([this.#getItemKey(first)]);
+    }
+    this.#selectionMode = mode;
+    this.#syncHostRole();
+    this.#syncFormValue();
+  }
+
+  #syncHostRole(): void {
+    // Only manage roles we assigned ourselves; custom roles are left alone.
+    const role = this.getAttribute('role');
+    const selectable = this.#selectionMode !== 'none';
+    if (role === null || role === 'list' || role === 'listbox' || role === 'tree') {
+      this.setAttribute('role', this.#isTree() ? 'tree' : selectable ? 'listbox' : 'list');
+    }
+    if (this.#selectionMode === 'multiple') {
+      this.setAttribute('aria-multiselectable', 'true');
+    } else {
+      this.removeAttribute('aria-multiselectable');
+    }
+  }
+
+  #initialize(): void {
+    this.#initialized = true;
+
+    this.#syncHostRole();
+    this.#upgradeProperties();
+    this.#captureChildren();
+    this.#setupShadowDom();
+    this.#applyInitialAttributes();
+    this.#startObservingLightDom();
+    this.#mountVirtualizer();
+  }
+
+  #upgradeProperties(): void {
+    // Properties assigned before the element was upgraded shadow the accessors.
+    for (const name of UPGRADABLE_PROPERTIES) {
+      if (Object.prototype.hasOwnProperty.call(this, name)) {
+        const value: unknown = Reflect.get(this, name);
+        Reflect.deleteProperty(this, name);
+        Reflect.set(this, name, value);
+      }
+    }
+  }
+
+  #captureChildren(): void {
+    const nodes: ChildNode[] = [];
+    for (const node of Array.from(super.childNodes)) {
+      if (this.#isPoolable(node)) {
+        nodes.push(node);
+        super.removeChild(node);
+      }
+    }
+    this.#setNodes(nodes);
+  }
+
+  #startObservingLightDom(): void {
+    if (!this.#mutationObserver) {
+      this.#mutationObserver = new MutationObserver((mutations) => {
+        this.#handleLightDomMutations(mutations);
+      });
+    } else {
+      this.#mutationObserver.disconnect();
+    }
+
+    this.#mutationObserver.observe(this, { childList: true });
+
+    // Rendered items live in the shadow tree, so `before()`, `after()`,
+    // `replaceWith()` and `remove()` called on them land there.
+    if (!this.#itemsObserver) {
+      this.#itemsObserver = new MutationObserver((mutations) => {
+        if (this.#handleItemsMutations(mutations)) {
+          this.#updateVirtualizerOptions();
+        }
+      });
+    } else {
+      this.#itemsObserver.disconnect();
+    }
+
+    if (this.#itemsContainer) {
+      this.#itemsObserver.observe(this.#itemsContainer, { childList: true, subtree: true });
+    }
+  }
+
+  #stopObservingLightDom(): void {
+    if (this.#mutationObserver) {
+      this.#mutationObserver.disconnect();
+      this.#mutationObserver = null;
+    }
+    if (this.#itemsObserver) {
+      this.#itemsObserver.disconnect();
+      this.#itemsObserver = null;
+    }
+    if (this.#estimateObserver) {
+      this.#estimateObserver.disconnect();
+      this.#estimateObserver = null;
+      this.#watchedEstimates = new WeakSet();
+    }
+  }
+
+  /**
+   * Applies `before()`, `after()`, `replaceWith()` and `remove()` called on
+   * rendered items, which act on the shadow tree: nodes inserted next to an
+   * item join the pool beside it, and items moved out of the tree leave it.
+   * Returns whether the pool changed. Mutations made by `#render` itself are
+   * discarded before they get here.
+   */
+  #handleItemsMutations(mutations: MutationRecord[]): boolean {
+    const container = this.#itemsContainer;
+    if (this.#data || !container) {
+      return false;
+    }
+
+    let nodes = this.#nodes;
+    const pooled = new Set<Node>(nodes);
+    let changed = false;
+    for (const mutation of mutations) {
+      if (!this.#isItemsParent(mutation.target)) {
+        continue;
+      }
+
+      const removed = new Set<Node>();
+      mutation.removedNodes.forEach((node) => {
+        if (pooled.has(node) && !container.contains(node)) {
+          removed.add(node);
+          pooled.delete(node);
+        }
+      });
+      const added = Array.from(mutation.addedNodes).filter(
+        (node): node is ChildNode =>
+          node.parentNode === mutation.target &&
+          this.#isPoolable(node) &&
+          node !== this.#placeholder &&
+          !(node instanceof Element && (this.#groupWrappers.has(node) || this.#scrollPlaceholders.has(node))),
+      );
+      if (removed.size === 0 && added.length === 0) {
+        continue;
+      }
+
+      const moving = new Set<Node>(added);
+      nodes = nodes.filter((node) => !removed.has(node) && !moving.has(node));
+      if (added.length > 0) {
+        for (const node of added) {
+          const owner = poolOwners.get(node);
+          if (owner && owner !== this) {
+            owner.removeChild(node);
+          }
+        }
+        const previous = this.#renderedNeighbour(added[0]!, 'previousSibling', pooled, moving);
+        const next = this.#renderedNeighbour(added[added.length - 1]!, 'nextSibling', pooled, moving);
+        const position = previous ? nodes.indexOf(previous) + 1 : next ? nodes.indexOf(next) : nodes.length;
+        nodes.splice(position, 0, ...added);
+        added.forEach((node) => pooled.add(node));
+      }
+      changed = true;
+    }
+
+    if (changed) {
+      this.#setNodes(nodes);
+    }
+    return changed;
+  }
+
+  /** The closest pooled node rendered before or after `node`, other than those being moved. */
+  #renderedNeighbour(
+    node: Node,
+    direction: 'previousSibling' | 'nextSibling',
+    pooled: Set<Node>,
+    moving: Set<Node>,
+  ): ChildNode | null {
+    for (let sibling = node[direction]; sibling; sibling = sibling[direction]) {
+      if (pooled.has(sibling) && !moving.has(sibling)) {
+        return sibling;
+      }
+    }
+    return null;
+  }
+
+  /** Processes mutations that are still queued so the pool is current. */
+  #flushMutations(): void {
+    const records = this.#mutationObserver?.takeRecords() ?? [];
+    if (records.length > 0) {
+      this.#handleLightDomMutations(records);
+    }
+    const itemRecords = this.#itemsObserver?.takeRecords() ?? [];
+    if (itemRecords.length > 0 && this.#handleItemsMutations(itemRecords)) {
+      this.#updateVirtualizerOptions();
+    }
+  }
+
+  /** Items and the text and comments between them are pooled; slotted and foreign elements stay put. */
+  #isPoolable(node: Node): node is ChildNode {
+    if (node instanceof HTMLElement) {
+      return !LIGHT_DOM_SLOTS.has(node.slot);
+    }
+    return node instanceof Text || node instanceof Comment;
+  }
+
+  /** Makes `nodes` the pool, adopting the nodes that joined it and releasing those that left. */
+  #setNodes(nodes: ChildNode[]): void {
+    const previous = this.#nodeIndex;
+    this.#nodes = nodes;
+    this.#nodeIndex = new Map(nodes.map((node, index) => [node, index]));
+    this.#items = nodes.filter((node): node is HTMLElement => node instanceof HTMLElement);
+
+    for (const node of previous.keys()) {
+      if (!this.#nodeIndex.has(node)) {
+        this.#releaseNode(node);
+      }
+    }
+    for (const node of nodes) {
+      if (!previous.has(node)) {
+        this.#adoptNode(node);
+      }
+    }
+  }
+
+  /** Claims a node that joined the pool; an element becomes a list item unless it has a role. */
+  #adoptNode(node: ChildNode): void {
+    poolOwners.set(node, this);
+    if (node instanceof HTMLElement && !node.hasAttribute('role')) {
+      node.setAttribute('role', 'listitem');
+    }
+  }
+
+  /** Lets go of a node that left the pool, taking it out of the shadow tree if it is rendered. */
+  #releaseNode(node: Node): void {
+    this.#sizesNeedPruning = true;
+    if (poolOwners.get(node) === this) {
+      poolOwners.delete(node);
+    }
+    const parent = node.parentNode;
+    if (parent && this.#isItemsParent(parent)) {
+      parent.removeChild(node);
+    }
+  }
+
+  /** Whether `node` is where rendered items are attached: the items container or a group wrapper. */
+  #isItemsParent(node: Node): boolean {
+    return node === this.#itemsContainer || (node instanceof Element && this.#groupWrappers.has(node));
+  }
+
+  /**
+   * Inserts `nodes` into the pool before `reference` (or at its end) and
+   * takes `removed` out of it, the way the same calls would change the light
+   * DOM. Pooled nodes are moved, fragments are emptied into the pool, and
+   * slotted elements go to the light DOM.
+   */
+  #spliceNodes(nodes: Array<Node | string>, reference: Node | null, removed: readonly Node[]): void {
+    this.#flushMutations();
+
+    const inserted: ChildNode[] = [];
+    const seen = new Set<Node>();
+    for (const entry of nodes) {
+      const node = typeof entry === 'string' ? document.createTextNode(entry) : entry;
+      for (const child of node instanceof DocumentFragment ? Array.from(node.childNodes) : [node]) {
+        if (!this.#isPoolable(child)) {
+          super.insertBefore(child, reference?.parentNode === this ? reference : null);
+          continue;
+        }
+        const owner = poolOwners.get(child);
+        const parent = child.parentNode;
+        if (owner && owner !== this) {
+          owner.removeChild(child);
+        } else if (parent === this) {
+          super.removeChild(child);
+        } else if (parent && !owner) {
+          parent.removeChild(child);
+        }
+        // A node listed twice ends up at its last position, as in the DOM.
+        if (seen.has(child)) {
+          inserted.splice(inserted.indexOf(child), 1);
+        }
+        seen.add(child);
+        inserted.push(child);
+      }
+    }
+
+    if (removed.length === 0 && inserted.every((node) => !this.#nodeIndex.has(node))) {
+      // Only new nodes: no need to rebuild the pool, which keeps appending
+      // items one at a time linear.
+      const position = reference ? this.#nodeIndex.get(reference) : undefined;
+      this.#insertNodes(position ?? this.#nodes.length, inserted);
+    } else {
+      // Insert before the first node from `reference` on that is not itself
+      // being moved, as the DOM does.
+      const moving = new Set<Node>(inserted);
+      const dropped = new Set(removed);
+      const start = reference ? this.#nodeIndex.get(reference) : undefined;
+      const anchor = start === undefined ? undefined : this.#nodes.slice(start).find((node) => !moving.has(node));
+      const kept = this.#nodes.filter((node) => !moving.has(node));
+      kept.splice(anchor ? kept.indexOf(anchor) : kept.length, 0, ...inserted);
+      this.#setNodes(dropped.size > 0 ? kept.filter((node) => moving.has(node) || !dropped.has(node)) : kept);
+    }
+
+    // The moves above are already reflected in the pool.
+    this.#mutationObserver?.takeRecords();
+    this.#itemsObserver?.takeRecords();
+    this.#queueUpdate();
+  }
+
+  /** Adds nodes new to the pool at `position`, reindexing only the nodes after them. */
+  #insertNodes(position: number, nodes: ChildNode[]): void {
+    const pool = this.#nodes;
+    pool.splice(position, 0, ...nodes);
+    for (let index = position; index < pool.length; index++) {
+      this.#nodeIndex.set(pool[index]!, index);
+    }
+    const elements = nodes.filter((node): node is HTMLElement => node instanceof HTMLElement);
+    if (position + nodes.length === pool.length) {
+      this.#items.push(...elements);
+    } else if (elements.length > 0) {
+      this.#items = pool.filter((node): node is HTMLElement => node instanceof HTMLElement);
+    }
+    for (const node of nodes) {
+      this.#adoptNode(node);
+    }
+  }
+
+  /**
+   * Hands the pool changes made in this task to the virtualizer in one go,
+   * once the task is done.
+   */
+  #queueUpdate(): void {
+    if (this.#updateQueued) {
+      return;
+    }
+    this.#updateQueued = true;
+    queueMicrotask(() => this.#applyQueuedUpdate());
+  }
+
+  /** Applies queued pool changes now, for callers that need the virtualizer current. */
+  #applyQueuedUpdate(): void {
+    if (this.#updateQueued) {
+      this.#updateVirtualizerOptions();
+    }
+  }
+
+  /** Pooled nodes followed by the slotted elements that really are in the light DOM. */
+  #logicalNodes(): ChildNode[] {
+    const nodes: ChildNode[] = this.#initialized ? this.#nodes.slice() : [];
+    return nodes.concat(Array.from(super.childNodes));
+  }
+
+  #logicalChildren(): Element[] {
+    return this.#logicalNodes().filter((node): node is Element => node instanceof Element);
+  }
+
+  /**
+   * Pools nodes added to the light DOM without going through the host's
+   * methods. The light DOM only ever holds slotted elements after the pool,
+   * so a node inserted before all of them goes to the start of the pool.
+   */
+  #handleLightDomMutations(mutations: MutationRecord[]): void {
+    let nodes = this.#nodes;
+    let changed = false;
+
+    for (const mutation of mutations) {
+      const added = Array.from(mutation.addedNodes).filter(
+        (node): node is ChildNode => node.parentNode === this && this.#isPoolable(node),
+      );
+      if (added.length > 0) {
+        for (const node of added) {
+          this.#capturedNodes.add(node);
+          super.removeChild(node);
+        }
+        const atStart = mutation.previousSibling === null && mutation.nextSibling !== null;
+        nodes = atStart ? added.concat(nodes) : nodes.concat(added);
+        changed = true;
+      }
+
+      // Only the removals made while capturing concern the pool.
+      mutation.removedNodes.forEach((node) => this.#capturedNodes.delete(node));
+    }
+
+    if (changed) {
+      this.#setNodes(nodes);
+      this.#updateVirtualizerOptions();
+    }
+  }
+
+  #setupShadowDom(): void {
+    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
+
+    // A declarative shadow root from `renderVirtualList` already holds the
+    // structure and the first window of items; adopt it instead of
+    // rebuilding it, so the server-rendered rows stay in place.
+    let scroll = findChild(shadow, 'scroll');
+    let sizer = scroll && findChild(scroll, 'sizer');
+    let itemsContainer = sizer && findChild(sizer, 'items');
+    if (!scroll || !sizer || !itemsContainer) {
+      shadow.innerHTML = '';
+
+      const style = document.createElement('style');
+      style.textContent = VIRTUAL_LIST_STYLES;
+
+      scroll = document.createElement('div');
+      scroll.className = 'scroll';
+      scroll.part = 'scroll';
+
+      sizer = document.createElement('div');
+      sizer.className = 'sizer';
+      sizer.part = 'sizer';
+
+      itemsContainer = document.createElement('div');
+      itemsContainer.className = 'items';
+      itemsContainer.part = 'items';
+
+      sizer.appendChild(itemsContainer);
+      scroll.appendChild(sizer);
+      shadow.append(style, scroll);
+    } else {
+      this.#adoptHydratedItems(itemsContainer);
+    }
+
+    let loading = findChild(sizer, 'loading');
+    if (!loading) {
+      loading = document.createElement('div');
+      loading.className = 'loading';
+      loading.part = 'loading';
+      loading.hidden = true;
+      loading.appendChild(Object.assign(document.createElement('slot'), { name: 'loading' }));
+      sizer.appendChild(loading);
+    }
+
+    let findProxies = findChild(sizer, 'find-proxies');
+    if (!findProxies) {
+      findProxies = document.createElement('div');
+      findProxies.className = 'find-proxies';
+      sizer.appendChild(findProxies);
+    }
+
+    let announcer = findChild(shadow, 'announcer');
+    if (!announcer) {
+      announcer = document.createElement('div');
+      announcer.className = 'announcer';
+      announcer.setAttribute('role', 'status');
+      announcer.setAttribute('aria-live', 'assertive');
+      shadow.appendChild(announcer);
+    }
+
+    const placeholder = document.createElement('div');
+    placeholder.className = 'placeholder';
+    placeholder.part = 'placeholder';
+    placeholder.setAttribute('aria-hidden', 'true');
+
+    findProxies.addEventListener('beforematch', (event) => this.#handleBeforeMatch(event));
+    itemsContainer.addEventListener('pointerdown', (event) => this.#handlePointerDown(event));
+    itemsContainer.addEventListener('keydown', (event) => this.#handleKeyDown(event));
+    itemsContainer.addEventListener('click', (event) => this.#handleClick(event));
+    itemsContainer.addEventListener('focusin', (event) => this.#handleFocusIn(event));
+    itemsContainer.addEventListener('focusout', (event) => this.#handleFocusOut(event));
+
+    this.#scrollElement = scroll;
+    this.#sizerElement = sizer;
+    this.#itemsContainer = itemsContainer;
+    this.#placeholder = placeholder;
+    this.#findProxyContainer = findProxies;
+    this.#announcer = announcer;
+    this.#loadingElement = loading;
+    this.#syncItemSize();
+  }
+
+  /** Exposes the declared item size to the styles that size items to it. */
+  #syncItemSize(): void {
+    if (this.#itemSize === null) {
+      this.#itemsContainer?.style.removeProperty('--item-size');
+    } else {
+      this.#itemsContainer?.style.setProperty('--item-size', `${this.#itemSize}px`);
+    }
+  }
+
+  /**
+   * Keeps server-rendered items by index until data arrives, when they are
+   * handed to `renderItem` as the recycled element for the same index.
+   */
+  #adoptHydratedItems(container: HTMLDivElement): void {
+    for (const child of Array.from(container.children)) {
+      const index = Number(child.getAttribute('data-index'));
+      if (child instanceof HTMLElement && child.hasAttribute('data-index') && Number.isInteger(index)) {
+        this.#hydratedItems.set(index, child);
+      }
+    }
+  }
+
+  #applyInitialAttributes(): void {
+    const orientation = this.getAttribute('orientation');
+    this.#orientation = orientation === 'horizontal' ? 'horizontal' : 'vertical';
+    this.#setSelectionMode(this.getAttribute('selection-mode'));
+    for (const name of NUMBER_ATTRIBUTES) {
+      const value = this.getAttribute(name);
+      if (value != null) {
+        this.attributeChangedCallback(name, null, value);
+      }
+    }
+  }
+
+  #mountVirtualizer(): void {
+    if (!this.#scrollElement || !this.#itemsContainer) {
+      return;
+    }
+
+    this.#refreshView();
+    this.#pruneMeasuredSizes();
+    this.#refreshStickyIndexes();
+    this.#runSearch();
+    this.#syncFindProxies();
+    this.#syncFormValue();
+    this.#watchEstimates();
+
+    if (this.#virtualizer) {
+      this.#virtualizer._willUpdate();
+      this.#setVirtualizerOptions?.();
+      this.#virtualizer.measure();
+      this.#render();
+      return;
+    }
+
+    // An external scroller moves the list itself, so the inner container
+    // just grows to the virtual size.
+    this.#scrollElement.classList.toggle('external', this.#isExternalScroll());
+
+    const count = this.#getCount();
+    // Start at the saved offset so the first frame already shows the
+    // restored rows; the anchor correction below is usually a no-op. Reverse
+    // lists start at their estimated end, so the first frame and load
+    // threshold check do not see the top of the history.
+    let initialOffset: number | (() => number) | undefined;
+    if (this.#pendingState && count > 0) {
+      initialOffset = this.#pendingState.scrollOffset;
+    } else if (this.#anchorEnd && count > 0) {
+      initialOffset = () => Math.max(0, virtualizer.getTotalSize() - this.#measureViewport());
+    }
+    const virtualizer = this.#resolveScrollTarget() instanceof Element
+      ? this.#createVirtualizer(ELEMENT_SCROLL, () => this.#resolveScrollElement(), initialOffset)
+      : this.#createVirtualizer(WINDOW_SCROLL, () => this.#resolveScrollWindow(), initialOffset);
+    this.#virtualizer = virtualizer;
+    this.#applyAnchoring();
+    virtualizer._willUpdate();
+    this.#virtualizerCleanup = virtualizer._didMount();
+    this.#render();
+
+    if (this.#pendingState) {
+      this.#applyPendingState();
+    } else if (this.#anchorEnd && count > 0) {
+      virtualizer.scrollToIndex(count - 1, { align: 'end' });
+    }
+  }
+
+  #applyPendingState(): void {
+    const state = this.#pendingState;
+    const instance = this.#virtualizer;
+    const count = this.#getCount();
+    // Data may arrive after connection; wait for it before scrolling.
+    if (!state || !instance || count === 0) {
+      return;
+    }
+    this.#pendingState = null;
+
+    let offset = state.scrollOffset + this.#scrollMargin();
+    if (state.anchorKey !== null) {
+      for (let index = 0; index < count; index += 1) {
+        if (this.#getItemKey(index) === state.anchorKey) {
+          instance.getTotalSize(); // refreshes measurementsCache
+          const start = instance.measurementsCache[index]?.start;
+          if (start !== undefined) {
+            offset = start + state.anchorOffset;
+          }
+          break;
+        }
+      }
+    }
+
+    if (Math.abs(offset - (instance.scrollOffset ?? 0)) >= 1) {
+      instance.scrollToOffset(offset);
+    }
+  }
+
+  #storageKey(): string | null {
+    const key = this.getAttribute('persist-key');
+    return key ? `virtual-list:${key}` : null;
+  }
+
+  #readPersistedState(): VirtualListState | null {
+    const key = this.#storageKey();
+    if (!key || typeof sessionStorage === 'undefined') {
+      return null;
+    }
+    try {
+      const raw = sessionStorage.getItem(key);
+      const state: unknown = raw ? JSON.parse(raw) : null;
+      return isVirtualListState(state) ? state : null;
+    } catch {
+      return null;
+    }
+  }
+
+  #persistState(state: VirtualListState): void {
+    const key = this.#storageKey();
+    if (!key || typeof sessionStorage === 'undefined') {
+      return;
+    }
+    // JSON has no bigint; those keys fall back to the raw scroll offset.
+    const serializable = (key: VirtualListKey | null) => typeof key !== 'bigint';
+    const sizes = state.sizes.filter(([itemKey]) => serializable(itemKey)).slice(-MAX_PERSISTED_SIZES);
+    const anchorKey = serializable(state.anchorKey) ? state.anchorKey : null;
+    try {
+      sessionStorage.setItem(key, JSON.stringify({ ...state, anchorKey, sizes }));
+    } catch {
+      // Storage may be full or unavailable; persistence is best effort.
+    }
+  }
+
+  /** Re-creates the virtualizer so it observes a different scroll container. */
+  #remountVirtualizer(): void {
+    if (!this.#virtualizer) {
+      return;
+    }
+    this.#teardownVirtualizer();
+    this.#mountVirtualizer();
+  }
+
+  #teardownVirtualizer(): void {
+    if (this.#rafId !== null && typeof cancelAnimationFrame === 'function') {
+      cancelAnimationFrame(this.#rafId);
+      this.#rafId = null;
+    }
+
+    if (this.#virtualizerCleanup) {
+      this.#virtualizerCleanup();
+      this.#virtualizerCleanup = null;
+    }
+
+    if (this.#virtualizer) {
+      this.#virtualizer = null;
+      this.#setVirtualizerOptions = null;
+    }
+
+    if (this.#scrolling) {
+      this.#scrolling = false;
+      this.removeAttribute('scrolling');
+    }
+  }
+
+  #createVirtualizer<S extends ScrollContainer>(
+    functions: ScrollFunctions<S>,
+    getScrollElement: () => S | null,
+    initialOffset: number | (() => number) | undefined,
+  ): Virtualizer<S, HTMLElement> {
+    const createOptions = (): VirtualizerOptions<S, HTMLElement> =>
+      this.#createOptions(functions, getScrollElement, () => virtualizer);
+    const options = createOptions();
+    const scrollMargin = options.scrollMargin ?? 0;
+    if (typeof initialOffset === 'function') {
+      options.initialOffset = () => initialOffset() + scrollMargin;
+    } else if (initialOffset !== undefined) {
+      options.initialOffset = initialOffset + scrollMargin;
+    }
+    const virtualizer: Virtualizer<S, HTMLElement> = new Virtualizer(options);
+    this.#setVirtualizerOptions = () => virtualizer.setOptions(createOptions());
+    return virtualizer;
+  }
+
+  #createOptions<S extends ScrollContainer>(
+    functions: ScrollFunctions<S>,
+    getScrollElement: () => S | null,
+    instanceGetter: () => Virtualizer<S, HTMLElement>,
+  ): VirtualizerOptions<S, HTMLElement> {
+    return {
+      count: this.#getCount(),
+      getScrollElement,
+      estimateSize: (index: number) => this.#getEstimatedSize(index),
+      ...functions,
+      measureElement: (element: HTMLElement, entry?: ResizeObserverEntry) => {
+        const instance = instanceGetter();
+        const size = instance ? measureElement(element, entry, instance) : element.offsetHeight;
+        this.#rememberSize(element, size);
+        return size;
+      },
+      onChange: (instance: Virtualizer<S, HTMLElement>) => {
+        if (!this.#isCurrentVirtualizer(instance)) {
+          return;
+        }
+        if (
+          (this.#lanes === 'auto' && this.#resolveLanes() !== instance.options.lanes) ||
+          (this.#isExternalScroll() && this.#measureScrollMargin() !== instance.options.scrollMargin)
+        ) {
+          // The viewport was resized enough to fit a different number of
+          // lanes, or content around the list moved it within its scroller.
+          this.#updateVirtualizerOptions();
+        } else {
+          this.#render();
+        }
+      },
+      getItemKey: (index: number) => this.#getItemKey(index),
+      rangeExtractor: (range: Range) => this.#extractRange(range),
+      overscan: this.#overscan,
+      lanes: this.#resolveLanes(),
+      horizontal: this.#orientation === 'horizontal',
+      paddingStart: this.#paddingStart + this.#getLoadingSize('start'),
+      paddingEnd: this.#paddingEnd + this.#getLoadingSize('end'),
+      scrollPaddingStart: this.#scrollPaddingStart,
+      scrollPaddingEnd: this.#scrollPaddingEnd,
+      scrollMargin: this.#measureScrollMargin(),
+    };
+  }
+
+  #resolveScrollTarget(): ScrollContainer | null {
+    if (this.#scrollTarget) {
+      return this.#scrollTarget;
+    }
+    const target = this.getAttribute('scroll-target');
+    if (target === 'window') {
+      return typeof window !== 'undefined' ? window : null;
+    }
+    if (target) {
+      try {
+        return this.parentElement?.closest(target) ?? this.#scrollElement;
+      } catch {
+        // An invalid selector matches nothing, like one no ancestor satisfies.
+      }
+    }
+    return this.#scrollElement;
+  }
+
+  #isExternalScroll(): boolean {
+    const target = this.#resolveScrollTarget();
+    return target !== null && target !== this.#scrollElement;
+  }
+
+  /** Whether `instance` is the mounted virtualizer rather than one already torn down. */
+  #isCurrentVirtualizer(instance: object): boolean {
+    return instance === this.#virtualizer;
+  }
+
+  #resolveScrollElement(): Element | null {
+    const target = this.#resolveScrollTarget();
+    return target instanceof Element ? target : null;
+  }
+
+  #resolveScrollWindow(): Window | null {
+    const target = this.#resolveScrollTarget();
+    return target instanceof Element ? null : target;
+  }
+
+  /** The scroller's size along the list, read before the virtualizer observes it. */
+  #measureViewport(): number {
+    const horizontal = this.#orientation === 'horizontal';
+    const element = this.#resolveScrollElement();
+    if (element) {
+      return horizontal ? element.clientWidth : element.clientHeight;
+    }
+    const view = this.#resolveScrollWindow();
+    return view ? (horizontal ? view.innerWidth : view.innerHeight) : 0;
+  }
+
+  /**
+   * Offset of the list's content from the start of an external scroller, so
+   * that content above the list does not skew the virtualizer's maths.
+   */
+  #measureScrollMargin(): number {
+    const target = this.#resolveScrollTarget();
+    if (!target || target === this.#scrollElement || !this.#sizerElement) {
+      return 0;
+    }
+
+    const horizontal = this.#orientation === 'horizontal';
+    const rect = this.#sizerElement.getBoundingClientRect();
+    if (!(target instanceof Element)) {
+      return horizontal ? rect.left + target.scrollX : rect.top + target.scrollY;
+    }
+    const targetRect = target.getBoundingClientRect();
+    return horizontal
+      ? rect.left - targetRect.left - target.clientLeft + target.scrollLeft
+      : rect.top - targetRect.top - target.clientTop + target.scrollTop;
+  }
+
+  #refreshStickyIndexes(): void {
+    const indexes: number[] = [];
+    const count = this.#getCount();
+    if (this.#data) {
+      if (this.#isSticky) {
+        for (let index = 0; index < count; index++) {
+          if (this.#isSticky(this.#dataAt(index), index)) {
+            indexes.push(index);
+          }
+        }
+      }
+    } else {
+      for (let index = 0; index < count; index++) {
+        if (this.#itemAt(index)?.hasAttribute('data-sticky')) {
+          indexes.push(index);
+        }
+      }
+    }
+    this.#stickyIndexes = indexes;
+  }
+
+  /** Index of the closest sticky header at or before `index`, or -1. */
+  #findStickyIndex(index: number): number {
+    const indexes = this.#stickyIndexes;
+    let low = 0;
+    let high = indexes.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      if (indexes[middle]! <= index) {
+        found = indexes[middle]!;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return found;
+  }
+
+  #extractRange(range: Range): number[] {
+    const indexes = defaultRangeExtractor(range);
+    // Always render the header of the section at the top of the viewport, even
+    // when it is far outside the overscanned window.
+    this.#activeStickyIndex = this.#findStickyIndex(range.startIndex);
+    if (this.#activeStickyIndex !== -1 && !indexes.includes(this.#activeStickyIndex)) {
+      indexes.unshift(this.#activeStickyIndex);
+    }
+    return indexes;
+  }
+
+  #scrollMargin(): number {
+    return this.#virtualizer?.options.scrollMargin ?? 0;
+  }
+
+  #resolveLanes(): number {
+    if (this.#lanes !== 'auto') {
+      return this.#lanes;
+    }
+    // An external scroller can be much wider than the list itself.
+    const rect = this.#isExternalScroll() ? this.#sizerElement?.getBoundingClientRect() : this.#virtualizer?.scrollRect;
+    const crossSize = rect ? (this.#orientation === 'horizontal' ? rect.height : rect.width) : 0;
+    return Math.max(1, Math.floor(crossSize / this.#minLaneSize));
+  }
+
+  #getCount(): number {
+    if (this.#view) {
+      return this.#view.length;
+    }
+    return this.#data ? this.#data.length : this.#items.length;
+  }
+
+  #getText(index: number): string {
+    if (!this.#data) {
+      return this.#itemAt(index)?.textContent ?? '';
+    }
+    const data = this.#dataAt(index);
+    if (this.#getItemTextCallback) {
+      return this.#getItemTextCallback(data, index);
+    }
+    return typeof data === 'string' || typeof data === 'number' ? String(data) : '';
+  }
+
+  /** Tests the item at a view index against the search query, if there is one. */
+  #createMatcher(): ((index: number) => boolean) | null {
+    const query = this.#searchQuery;
+    if (typeof query === 'string') {
+      const needle = query.toLowerCase();
+      return (index) => this.#getText(index).toLowerCase().includes(needle);
+    }
+    if (!query) {
+      return null;
+    }
+    if (this.#data) {
+      return (index) => query(this.#dataAt(index), index);
+    }
+    // Re-read through the element-mode narrowing so the predicate takes elements.
+    const predicate = this.#hasElementItems() ? this.#searchQuery : null;
+    if (typeof predicate !== 'function') {
+      return null;
+    }
+    return (index) => {
+      const item = this.#itemAt(index);
+      return item !== undefined && predicate(item, index);
+    };
+  }
+
+  #runSearch(): void {
+    const matches: number[] = [];
+    const matcher = this.#createMatcher();
+    if (matcher) {
+      const count = this.#getCount();
+      for (let index = 0; index < count; index++) {
+        if (matcher(index)) {
+          matches.push(index);
+        }
+      }
+    }
+    this.#matches = matches;
+    this.#matchKeys = new Set(matches.map((index) => this.#getItemKey(index)));
+    if (this.#currentMatchKey !== null && !this.#matchKeys.has(this.#currentMatchKey)) {
+      this.#currentMatchKey = null;
+    }
+  }
+
+  async #findMatch(direction: 1 | -1): Promise<number> {
+    const matches = this.#matches;
+    if (matches.length === 0) {
+      return -1;
+    }
+
+    const current = this.#currentMatchKey !== null
+      ? matches.findIndex((index) => this.#getItemKey(index) === this.#currentMatchKey)
+      : -1;
+    let position: number;
+    if (current !== -1) {
+      position = (current + direction + matches.length) % matches.length;
+    } else {
+      // Start from the viewport rather than the top of the list.
+      const start = this.#virtualizer?.range?.startIndex ?? 0;
+      position = direction === 1
+        ? Math.max(0, matches.findIndex((index) => index >= start))
+        : matches.length - 1;
+    }
+
+    const index = matches[position]!;
+    this.#currentMatchKey = this.#getItemKey(index);
+    this.#refreshRenderedItems();
+    await this.scrollToIndex(index, { align: 'center' });
+    this.#refreshRenderedItems();
+    return index;
+  }
+
+  /** Jumps to the next item whose text starts with the typed characters. */
+  #handleTypeahead(event: KeyboardEvent, index: number): boolean {
+    if (event.ctrlKey || event.metaKey || event.key.length !== 1 || this.#drag || index === -1) {
+      return false;
+    }
+    if (event.key === ' ' && this.#typeahead === '') {
+      return false;
+    }
+
+    if (this.#typeaheadTimer !== null) {
+      clearTimeout(this.#typeaheadTimer);
+    }
+    this.#typeahead += event.key.toLowerCase();
+    this.#typeaheadTimer = setTimeout(() => {
+      this.#typeahead = '';
+      this.#typeaheadTimer = null;
+    }, TYPEAHEAD_TIMEOUT);
+
+    // Repeating one letter cycles through the items starting with it.
+    const buffer = this.#typeahead;
+    const repeated = buffer.split('').every((char) => char === buffer[0]);
+    const prefix = repeated ? buffer[0]! : buffer;
+    const start = repeated ? index + 1 : index;
+    const count = this.#getCount();
+    for (let offset = 0; offset < count; offset++) {
+      const candidate = (start + offset) % count;
+      if (this.#getText(candidate).trim().toLowerCase().startsWith(prefix)) {
+        if (candidate !== index) {
+          void this.focusIndex(candidate);
+        }
+        break;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Mirrors the text of unrendered items into `hidden="until-found"`
+   * elements at their virtual offsets, so the browser's find-in-page can
+   * match them; `beforematch` then renders the real item in their place.
+   * Proxies are kept across updates: only those for added or removed
+   * indices are created or dropped, and text is only read from items that
+   * are new or, for pooled elements, edited since.
+   */
+  #syncFindProxies(): void {
+    const container = this.#findProxyContainer;
+    if (!container) {
+      return;
+    }
+    if (!this.#findable) {
+      if (this.#findProxies.length > 0) {
+        this.#findProxies = [];
+        this.#detachedProxies.clear();
+        container.replaceChildren();
+      }
+      this.#findTexts.clear();
+      this.#findObserver?.disconnect();
+      this.#findObserver = null;
+      this.#findWatched = new WeakSet();
+      return;
+    }
+
+    const count = this.#getCount();
+    const proxies = this.#findProxies;
+    for (const proxy of proxies.splice(count)) {
+      proxy.remove();
+    }
+    for (const index of Array.from(this.#detachedProxies)) {
+      if (index >= count) {
+        this.#detachedProxies.delete(index);
+      }
+    }
+
+    const previous = this.#findTexts;
+    const texts = new Map<unknown, string>();
+    const added = document.createDocumentFragment();
+    for (let index = 0; index < count; index++) {
+      let proxy = proxies[index];
+      if (!proxy) {
+        proxy = document.createElement('div');
+        proxy.setAttribute('hidden', 'until-found');
+        proxy.dataset.index = String(index);
+        proxies.push(proxy);
+        added.appendChild(proxy);
+      }
+      const source = this.#data ? this.#dataAt(index) : this.#itemAt(index);
+      let text = texts.get(source) ?? previous.get(source);
+      if (text === undefined) {
+        text = this.#getText(index);
+        if (source instanceof HTMLElement) {
+          this.#watchFindText(source);
+        }
+      }
+      texts.set(source, text);
+      if (proxy.textContent !== text) {
+        proxy.textContent = text;
+      }
+    }
+    if (added.hasChildNodes()) {
+      container.appendChild(added);
+    }
+    this.#findTexts = texts;
+  }
+
+  /** Re-reads the proxy text of a pooled item when its content changes. */
+  #watchFindText(item: HTMLElement): void {
+    if (this.#findWatched.has(item)) {
+      return;
+    }
+    this.#findWatched.add(item);
+    this.#findObserver ??= new MutationObserver((mutations) => {
+      let changed = false;
+      for (const mutation of mutations) {
+        let node: Node | null = mutation.target;
+        while (node && !this.#nodeIndex.has(node)) {
+          node = node.parentNode;
+        }
+        changed = this.#findTexts.delete(node) || changed;
+      }
+      if (changed) {
+        this.#syncFindProxies();
+      }
+    });
+    this.#findObserver.observe(item, { characterData: true, childList: true, subtree: true });
+  }
+
+  /** Keeps proxies out of the document while their real item is rendered. */
+  #toggleFindProxies(entries: RenderedEntry[]): void {
+    const container = this.#findProxyContainer;
+    if (!container || this.#findProxies.length === 0) {
+      return;
+    }
+
+    const mounted = new Set(entries.map((entry) => entry.index));
+    for (const index of Array.from(this.#detachedProxies)) {
+      const proxy = this.#findProxies[index];
+      if (mounted.has(index) || !proxy) {
+        continue;
+      }
+      let next: HTMLElement | null = null;
+      for (let after = index + 1; after < this.#findProxies.length && !next; after++) {
+        next = this.#detachedProxies.has(after) ? null : this.#findProxies[after] ?? null;
+      }
+      proxy.setAttribute('hidden', 'until-found');
+      container.insertBefore(proxy, next);
+      this.#detachedProxies.delete(index);
+    }
+    for (const index of mounted) {
+      const proxy = this.#findProxies[index];
+      if (proxy && !this.#detachedProxies.has(index)) {
+        proxy.remove();
+        this.#detachedProxies.add(index);
+      }
+    }
+  }
+
+  #handleBeforeMatch(event: Event): void {
+    const proxy = event.target;
+    const instance = this.#virtualizer;
+    if (!(proxy instanceof HTMLElement) || !instance) {
+      return;
+    }
+    const index = Number(proxy.dataset.index);
+    const measurement = instance.measurementsCache[index];
+    if (!measurement) {
+      return;
+    }
+    // Put the proxy where the item will be, so the browser scrolls there.
+    const offset = `${measurement.start - this.#scrollMargin()}px`;
+    proxy.style.top = this.#orientation === 'horizontal' ? '' : offset;
+    proxy.style.left = this.#orientation === 'horizontal' ? offset : '';
+    void this.scrollToIndex(index);
+  }
+
+  /** Recomputes the filtered and sorted view over the pool or data. */
+  #refreshView(): void {
+    this.#treeNodes = null;
+    if (this.#data) {
+      this.#view = this.#computeView(this.#data, this.#filter, this.#sort);
+    } else if (this.#hasElementItems()) {
+      this.#view = this.#computeView(this.#items, this.#filter, this.#sort);
+    }
+
+    const count = this.#getCount();
+    if (this.#viewChanged || (this.#view && count !== this.#viewCount)) {
+      this.dispatchEvent(
+        new CustomEvent<VirtualListViewChangeDetail>('viewchange', {
+          detail: { count, total: (this.#data ?? this.#items).length },
+        }),
+      );
+    }
+    this.#viewCount = count;
+    this.#viewChanged = false;
+  }
+
+  #computeView<S>(
+    source: readonly S[],
+    filter: VirtualListFilter<S> | null,
+    sort: VirtualListSort<S> | null,
+  ): number[] | null {
+    if (this.#isTree()) {
+      return this.#buildTreeView(source, filter, sort);
+    }
+    if (!filter && !sort) {
+      return null;
+    }
+    const view: number[] = [];
+    for (let index = 0; index < source.length; index++) {
+      if (!filter || filter(source[index]!, index)) {
+        view.push(index);
+      }
+    }
+    if (sort) {
+      view.sort((a, b) => sort(source[a]!, source[b]!) || a - b);
+    }
+    return view;
+  }
+
+  /**
+   * Light-DOM lists hand their pooled elements to the `T` callbacks, which
+   * is why such lists are typed `VirtualListElement<HTMLElement>`.
+   */
+  #hasElementItems(): this is VirtualListElement<HTMLElement> {
+    return this.#data === null;
+  }
+
+  #isTree(): boolean {
+    return this.#treeAttribute || this.#getChildren !== null;
+  }
+
+  /** Stores `items`, flattening nested entries depth-first in tree mode. */
+  #setData(items: readonly T[] | null): void {
+    this.#sizesNeedPruning = true;
+    const getChildren = this.#getChildren;
+    if (!items || !getChildren) {
+      this.#data = items;
+      this.#nestedData = null;
+      this.#dataParents = null;
+      return;
+    }
+
+    const data: T[] = [];
+    const parents: number[] = [];
+    const stack: Array<[T, number]> = [];
+    for (let index = items.length - 1; index >= 0; index--) {
+      stack.push([items[index]!, -1]);
+    }
+    while (stack.length > 0) {
+      const [entry, parent] = stack.pop()!;
+      const position = data.length;
+      data.push(entry);
+      parents.push(parent);
+      const children = getChildren(entry) ?? [];
+      for (let index = children.length - 1; index >= 0; index--) {
+        stack.push([children[index]!, position]);
+      }
+    }
+    this.#data = data;
+    this.#nestedData = items;
+    this.#dataParents = parents;
+  }
+
+  /**
+   * Links every item to its parent: flattened data knows its parents, and
+   * light-DOM items name theirs with `data-parent` (an id) or are nested by
+   * `data-level` in document order.
+   */
+  #buildTreeStructure(): TreeStructure {
+    const count = this.#data ? this.#data.length : this.#items.length;
+    let parents: number[];
+    if (this.#data) {
+      parents = this.#dataParents ?? new Array<number>(count).fill(-1);
+    } else {
+      parents = new Array<number>(count).fill(-1);
+      const ids = new Map<string, number>();
+      this.#items.forEach((item, index) => {
+        if (item.id) {
+          ids.set(item.id, index);
+        }
+      });
+
+      const ancestors: number[] = [];
+      this.#items.forEach((item, index) => {
+        const parentId = item.getAttribute('data-parent');
+        if (parentId !== null) {
+          const parent = ids.get(parentId);
+          parents[index] = parent === undefined || parent === index ? -1 : parent;
+        } else {
+          const level = Math.max(1, Math.floor(Number(item.getAttribute('data-level'))) || 1);
+          ancestors.length = Math.min(ancestors.length, level - 1);
+          parents[index] = ancestors[ancestors.length - 1] ?? -1;
+          ancestors.push(index);
+        }
+
+        if (!this.#seenTreeItems.has(item)) {
+          // Nodes marked expanded in the markup start out expanded.
+          this.#seenTreeItems.add(item);
+          if (item.getAttribute('aria-expanded') === 'true') {
+            this.#expandedKeys.add(this.#getSourceKey(index));
+          }
+        }
+      });
+    }
+
+    const children = new Map<number, number[]>();
+    parents.forEach((parent, index) => {
+      const siblings = children.get(parent);
+      if (siblings) {
+        siblings.push(index);
+      } else {
+        children.set(parent, [index]);
+      }
+    });
+    return { parents, children };
+  }
+
+  /**
+   * Lists the visible nodes depth-first: children of collapsed nodes are
+   * never visited, so collapsing a large subtree costs nothing per
+   * descendant. `filter` hides a node with its subtree, and `sort` orders
+   * each sibling group.
+   */
+  #buildTreeView<S>(
+    source: readonly S[],
+    filter: VirtualListFilter<S> | null,
+    sort: VirtualListSort<S> | null,
+  ): number[] {
+    const structure = (this.#reuseTreeStructure && this.#treeStructure) || this.#buildTreeStructure();
+    this.#treeStructure = structure;
+
+    const nodes = new Map<number, TreeNode>();
+    const siblingsOf = (parent: number, level: number): number[] => {
+      let siblings = structure.children.get(parent)?.slice() ?? [];
+      if (filter) {
+        siblings = siblings.filter((index) => filter(source[index]!, index));
+      }
+      if (sort) {
+        siblings.sort((a, b) => sort(source[a]!, source[b]!) || a - b);
+      }
+      siblings.forEach((index, position) => {
+        nodes.set(index, {
+          level,
+          posInSet: position + 1,
+          setSize: siblings.length,
+          expandable: structure.children.has(index),
+        });
+      });
+      return siblings;
+    };
+
+    const view: number[] = [];
+    const stack = siblingsOf(-1, 1).reverse();
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      view.push(index);
+      const node = nodes.get(index)!;
+      if (node.expandable && this.#expandedKeys.has(this.#getSourceKey(index))) {
+        stack.push(...siblingsOf(index, node.level + 1).reverse());
+      }
+    }
+
+    this.#treeNodes = nodes;
+    return view;
+  }
+
+  #updateTreeView(): void {
+    this.#reuseTreeStructure = true;
+    try {
+      this.#updateVirtualizerOptions();
+    } finally {
+      this.#reuseTreeStructure = false;
+    }
+  }
+
+  #setExpanded(index: number, expanded: boolean, user: boolean): void {
+    const source = this.#sourceIndex(index);
+    if (source === -1 || !this.#treeNodes?.get(source)?.expandable) {
+      return;
+    }
+    const key = this.#getSourceKey(source);
+    if (this.#expandedKeys.has(key) === expanded) {
+      return;
+    }
+
+    const activeSource = this.#sourceIndex(this.#activeIndex);
+    const hadFocus = this.#itemFromNode(this.shadowRoot?.activeElement ?? null) !== null;
+    if (expanded) {
+      this.#expandedKeys.add(key);
+    } else {
+      this.#expandedKeys.delete(key);
+    }
+    this.#updateTreeView();
+
+    // Focus inside a collapsed subtree moves up to the collapsed node.
+    const nodeIndex = this.#viewIndex(source);
+    const activeIndex = this.#viewIndex(activeSource);
+    this.#activeIndex = activeIndex === -1 ? nodeIndex : activeIndex;
+    this.#refreshRenderedItems();
+    if (activeIndex === -1 && hadFocus) {
+      void this.focusIndex(nodeIndex);
+    }
+
+    if (user) {
+      this.dispatchEvent(
+        new CustomEvent<VirtualListExpandedChangeDetail>('expandedchange', {
+          detail: { index: nodeIndex, key, expanded },
+        }),
+      );
+    }
+  }
+
+  /** Right expands or enters a node, Left collapses it or moves to its parent. */
+  #handleTreeKey(event: KeyboardEvent, index: number): boolean {
+    if (index === -1 || event.ctrlKey || event.metaKey || event.shiftKey || this.#orientation === 'horizontal') {
+      return false;
+    }
+    const source = this.#sourceIndex(index);
+    const node = this.#treeNodes?.get(source);
+    if (!node) {
+      return false;
+    }
+
+    const expanded = node.expandable && this.isExpanded(index);
+    if (event.key === 'ArrowRight') {
+      if (node.expandable && !expanded) {
+        this.#setExpanded(index, true, true);
+      } else if (expanded && this.#treeStructure?.parents[this.#sourceIndex(index + 1)] === source) {
+        void this.focusIndex(index + 1);
+      }
+      return true;
+    }
+    if (event.key === 'ArrowLeft') {
+      if (expanded) {
+        this.#setExpanded(index, false, true);
+      } else {
+        const parent = this.#treeStructure?.parents[source] ?? -1;
+        if (parent !== -1) {
+          void this.focusIndex(this.#viewIndex(parent));
+        }
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /** Index in the pool (or `items`) of the item at `index` in the view. */
+  #sourceIndex(index: number): number {
+    return this.#view ? this.#view[index] ?? -1 : index;
+  }
+
+  #viewIndex(sourceIndex: number): number {
+    return this.#view && sourceIndex !== -1 ? this.#view.indexOf(sourceIndex) : sourceIndex;
+  }
+
+  #itemAt(index: number): HTMLElement | undefined {
+    return this.#items[this.#sourceIndex(index)];
+  }
+
+  #dataAt(index: number): T {
+    return this.#data![this.#sourceIndex(index)]!;
+  }
+
+  #getItemKey(index: number): VirtualListKey {
+    return this.#getSourceKey(this.#sourceIndex(index));
+  }
+
+  #getSourceKey(source: number): VirtualListKey {
+    // Fallback keys use the unfiltered index so they survive view changes.
+    if (this.#data) {
+      return this.#getKey ? this.#getKey(this.#data[source]!, source) : source;
+    }
+    const item = this.#items[source];
+    return item?.id || source;
+  }
+
+  #indexOfElement(element: HTMLElement): number {
+    if (this.#data) {
+      for (const rendered of this.#rendered.values()) {
+        if (rendered.element === element) {
+          return rendered.index;
+        }
+      }
+      return -1;
+    }
+    return this.#viewIndex(this.#items.indexOf(element));
+  }
+
+  #rememberSize(element: HTMLElement, size: number): void {
+    const index = Number(element.getAttribute('data-index'));
+    if (size > 0 && Number.isInteger(index) && index >= 0 && index < this.#getCount()) {
+      // Re-inserting keeps the map in measurement order for persistence.
+      const key = this.#getItemKey(index);
+      this.#measuredSizes.delete(key);
+      this.#measuredSizes.set(key, size);
+    }
+  }
+
+  /** Forgets sizes of items that left the pool; restored sizes wait for their data. */
+  #pruneMeasuredSizes(): void {
+    if (!this.#sizesNeedPruning || this.#pendingState) {
+      return;
+    }
+    this.#sizesNeedPruning = false;
+    if (this.#measuredSizes.size === 0) {
+      return;
+    }
+    const length = this.#data ? this.#data.length : this.#items.length;
+    const keys = new Set<VirtualListKey>();
+    for (let source = 0; source < length; source++) {
+      keys.add(this.#getSourceKey(source));
+    }
+    for (const key of this.#measuredSizes.keys()) {
+      if (!keys.has(key)) {
+        this.#measuredSizes.delete(key);
+      }
+    }
+  }
+
+  #getEstimatedSize(index: number): number {
+    if (this.#itemSize !== null) {
+      // Only items opted into measurement have a size of their own.
+      return this.#measuredSizes.size > 0
+        ? (this.#measuredSizes.get(this.#getItemKey(index)) ?? this.#itemSize)
+        : this.#itemSize;
+    }
+    const measured = this.#measuredSizes.get(this.#getItemKey(index));
+    if (measured !== undefined) {
+      return measured;
+    }
+    const item = this.#data ? this.#rendered.get(this.#getItemKey(index))?.element : this.#itemAt(index);
+    const attr = item?.getAttribute('data-estimate-size');
+    if (attr) {
+      const parsed = Number(attr);
+      if (Number.isFinite(parsed)) {
+        return parsed;
+      }
+    }
+    return this.#estimateSize;
+  }
+
+  #updateVirtualizerOptions(): void {
+    this.#updateQueued = false;
+    if (!this.#virtualizer) {
+      this.#refreshView();
+      this.#syncFormValue();
+      return;
+    }
+
+    // Chat-style lists follow appends while the user is at the end and keep
+    // the visible message still when history is prepended.
+    const previousCount = this.#virtualizer.options.count;
+    const wasAtEnd = this.#anchorEnd && this.#isAtEnd();
+    const scrollAnchor = this.#captureScrollAnchor();
+
+    this.#refreshView();
+    this.#pruneMeasuredSizes();
+    this.#refreshStickyIndexes();
+    this.#runSearch();
+    this.#syncFindProxies();
+    this.#syncFormValue();
+    this.#watchEstimates();
+    this.#virtualizer._willUpdate();
+    this.#setVirtualizerOptions?.();
+    this.#virtualizer.measure();
+
+    const count = this.#getCount();
+    if (this.#pendingState) {
+      this.#applyPendingState();
+    } else if (wasAtEnd && count > previousCount) {
+      this.#virtualizer.scrollToIndex(count - 1, { align: 'end' });
+    } else if (scrollAnchor) {
+      this.#restoreScrollAnchor(scrollAnchor);
+    }
+    if (this.#pendingLoads.start === 0) {
+      this.#prependPending = false;
+    }
+    this.#render();
+  }
+
+  #isAtEnd(): boolean {
+    const instance = this.#virtualizer;
+    if (!instance) {
+      return false;
+    }
+    const rect = instance.scrollRect;
+    const viewport = rect ? (this.#orientation === 'horizontal' ? rect.width : rect.height) : 0;
+    const offset = (instance.scrollOffset ?? 0) - this.#scrollMargin();
+    return offset + viewport >= instance.getTotalSize() - END_TOLERANCE;
+  }
+
+  /**
+   * TanStack Virtual already shifts the scroll position when an item above
+   * the viewport is measured at a new size; `anchoring="none"` turns that off.
+   */
+  #applyAnchoring(): void {
+    if (this.#virtualizer) {
+      this.#virtualizer.shouldAdjustScrollPositionOnItemSizeChange = this.#anchoring ? undefined : () => false;
+    }
+  }
+
+  /**
+   * Chat-style lists and `loadprevious` requests anchor even with
+   * `anchoring="none"`, so prepended history does not push the view away.
+   */
+  #captureScrollAnchor(): ScrollAnchor | null {
+    const prepending = this.#anchorEnd || this.#prependPending;
+    const instance = this.#virtualizer;
+    const range = instance?.range;
+    if (!instance || !range || instance.options.count === 0 || (!this.#anchoring && !prepending)) {
+      return null;
+    }
+    // At the very start new content above is shown rather than skipped.
+    if (!prepending && (instance.scrollOffset ?? 0) - this.#scrollMargin() <= 0) {
+      return null;
+    }
+    const index = range.startIndex;
+    const start = instance.measurementsCache[index]?.start;
+    if (start === undefined) {
+      return null;
+    }
+
+    // Items or the pool may already have changed; what was rendered still
+    // reflects the layout the offset was measured against.
+    let key: VirtualListKey | null = null;
+    let element: HTMLElement | undefined;
+    if (this.#data) {
+      for (const [renderedKey, rendered] of this.#rendered) {
+        if (rendered.index === index) {
+          key = renderedKey;
+          break;
+        }
+      }
+    } else {
+      element = this.#getRenderedElement(index) ?? undefined;
+    }
+    if (key === null && !element) {
+      return null;
+    }
+    return { index, key, element, offset: (instance.scrollOffset ?? 0) - start, count: instance.options.count };
+  }
+
+  /** Keeps the anchor item at the same distance from the viewport start. */
+  #restoreScrollAnchor(anchor: ScrollAnchor): void {
+    const instance = this.#virtualizer;
+    if (!instance) {
+      return;
+    }
+
+    const count = this.#getCount();
+    const index = this.#locateScrollAnchor(anchor, count);
+    if (index === -1) {
+      return;
+    }
+    // Without anchoring only prepended items move the view.
+    if (!this.#anchoring && index <= anchor.index) {
+      return;
+    }
+
+    instance.getTotalSize(); // refreshes measurementsCache
+    const start = instance.measurementsCache[index]?.start;
+    const target = start === undefined ? null : start + anchor.offset;
+    if (target !== null && Math.abs(target - (instance.scrollOffset ?? 0)) >= 1) {
+      instance.scrollToOffset(target);
+    }
+  }
+
+  #locateScrollAnchor(anchor: ScrollAnchor, count: number): number {
+    if (anchor.element) {
+      return this.#viewIndex(this.#items.indexOf(anchor.element));
+    }
+    // Without keys we cannot tell a prepend from an append, so only trust the
+    // shift while a `loadprevious` request is in flight.
+    if (!this.#getKey && this.#prependPending) {
+      const candidate = anchor.index + (count - anchor.count);
+      return candidate >= 0 && candidate < count ? candidate : -1;
+    }
+    if (anchor.index < count && this.#getItemKey(anchor.index) === anchor.key) {
+      return anchor.index;
+    }
+    for (let candidate = 0; candidate < count; candidate++) {
+      if (this.#getItemKey(candidate) === anchor.key) {
+        return candidate;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Observes `data-estimate-size` on pooled items, including unrendered
+   * ones, so edits re-estimate the list and anchoring can compensate.
+   */
+  #watchEstimates(): void {
+    if (this.#data) {
+      return;
+    }
+    if (!this.#estimateObserver) {
+      this.#estimateObserver = new MutationObserver((mutations) => {
+        if (mutations.some((mutation) => this.#nodeIndex.has(mutation.target))) {
+          this.#updateVirtualizerOptions();
+        }
+      });
+    }
+    for (const item of this.#items) {
+      if (!this.#watchedEstimates.has(item)) {
+        this.#watchedEstimates.add(item);
+        this.#estimateObserver.observe(item, { attributes: true, attributeFilter: ['data-estimate-size'] });
+      }
+    }
+  }
+
+  #render(): void {
+    if (!this.#virtualizer || !this.#itemsContainer || !this.#sizerElement) {
+      return;
+    }
+
+    // Apply direct edits to rendered items before they are re-attached, and
+    // pool changes the virtualizer has not seen yet.
+    const itemRecords = this.#itemsObserver?.takeRecords() ?? [];
+    if ((itemRecords.length > 0 && this.#handleItemsMutations(itemRecords)) || this.#updateQueued) {
+      this.#updateVirtualizerOptions();
+      return;
+    }
+
+    // Leave server-rendered items and sizes alone until their data arrives
+    // and the viewport has been measured, so hydration does not flash.
+    const virtualItems = this.#virtualizer.getVirtualItems();
+    if (
+      this.#hydratedItems.size > 0 &&
+      ((!this.#data && this.#items.length === 0) || (this.#getCount() > 0 && virtualItems.length === 0))
+    ) {
+      return;
+    }
+
+    const horizontal = this.#orientation === 'horizontal';
+    const lanes = this.#resolveLanes();
+    // The drop placeholder adds a gap to the flow while dragging.
+    const dropGap = this.#drag && lanes === 1 ? this.#getDragSize(this.#drag) : 0;
+    const totalSize = this.#virtualizer.getTotalSize() + dropGap;
+
+    if (horizontal) {
+      this.#sizerElement.style.width = `${totalSize}px`;
+      this.#sizerElement.style.height = '100%';
+    } else {
+      this.#sizerElement.style.height = `${totalSize}px`;
+      this.#sizerElement.style.width = '100%';
+    }
+
+    const sticky = lanes === 1 ? this.#getStickyItem(virtualItems) : null;
+
+    // A single lane flows items inside the translated container; multiple
+    // lanes position every item absolutely by its lane and start instead. A
+    // sticky header rendered far above the window is left out of the flow.
+    // Virtual offsets include the scroll margin of an external scroller.
+    const scrollMargin = this.#scrollMargin();
+    let firstStart = scrollMargin;
+    const flowStart = sticky?.detached ? virtualItems[1] : virtualItems[0];
+    if (flowStart && lanes === 1) {
+      firstStart = flowStart.start;
+    }
+
+    // Flinging mounts placeholders instead of items, keeping the rendered
+    // items (and their keys) for when scrolling settles.
+    const placeholders = this.#updatePlaceholders(this.#virtualizer);
+    const swapped = this.#showingPlaceholders && !placeholders;
+    if (placeholders !== this.#showingPlaceholders) {
+      this.#showingPlaceholders = placeholders;
+      this.toggleAttribute('placeholders', placeholders);
+    }
+
+    const count = this.#getCount();
+    const rendered = placeholders ? this.#rendered : new Map<VirtualListKey, RenderedItem<T>>();
+    const entries: RenderedEntry[] = [];
+    this.#activeIndex = Math.min(this.#activeIndex, Math.max(0, count - 1));
+
+    const activeElement = this.shadowRoot?.activeElement ?? null;
+    const retained = this.#findRetainedItem(activeElement, virtualItems);
+
+    if (this.#retainedElement && this.#retainedElement !== retained?.element) {
+      this.#clearItemPosition(this.#retainedElement);
+      this.#retainedElement = null;
+    }
+
+    if (this.#data && !placeholders) {
+      const keys = virtualItems.map((virtualItem) => this.#getItemKey(virtualItem.index));
+      this.#recycleOutOfRange(retained ? keys.concat(retained.key) : keys);
+    }
+
+    for (const [position, virtualItem] of virtualItems.entries()) {
+      let item: HTMLElement | undefined;
+      if (placeholders) {
+        item = this.#getScrollPlaceholder(position, virtualItem.size);
+      } else {
+        item = this.#data ? this.#renderDataItem(virtualItem.index, rendered) : this.#itemAt(virtualItem.index);
+      }
+      if (!item) {
+        continue;
+      }
+
+      if (lanes > 1) {
+        this.#positionItem(item, virtualItem.start - firstStart, virtualItem.lane, lanes);
+      } else if (this.#positionedElements.has(item)) {
+        this.#clearItemPosition(item);
+      }
+      if (!placeholders) {
+        this.#applyItemState(item, virtualItem.index, count);
+      }
+      entries.push({ element: item, index: virtualItem.index });
+    }
+
+    if (retained) {
+      // Keep the focused item mounted, out of flow at its virtual position, so
+      // focus and the screen reader's place survive scrolling it out of view.
+      const measurement = this.#virtualizer.measurementsCache[retained.index];
+      this.#retainedElement = retained.element;
+      this.#positionItem(
+        retained.element,
+        (measurement?.start ?? firstStart) - firstStart,
+        measurement?.lane ?? 0,
+        lanes,
+      );
+      this.#applyItemState(retained.element, retained.index, count);
+      if (this.#data) {
+        rendered.set(retained.key, {
+          element: retained.element,
+          data: this.#dataAt(retained.index),
+          index: retained.index,
+        });
+      }
+      const entry = { element: retained.element, index: retained.index };
+      if (retained.index < (virtualItems[0]?.index ?? 0)) {
+        entries.unshift(entry);
+      } else {
+        entries.push(entry);
+      }
+    }
+
+    this.#pinStickyHeader(sticky, entries, firstStart);
+    const layout = this.#buildItemsLayout(entries);
+    this.#placeDropPlaceholder(layout, entries, lanes, firstStart);
+
+    this.#rendered = rendered;
+    this.#hydratedItems.clear();
+    for (const [group, nodes] of layout.groups) {
+      reconcileChildren(group, nodes);
+    }
+    reconcileChildren(this.#itemsContainer, layout.nodes);
+    this.#itemsObserver?.takeRecords();
+
+    // Moving the focused node blurs it; put focus back where it was.
+    if (
+      activeElement instanceof HTMLElement &&
+      activeElement.isConnected &&
+      this.shadowRoot?.activeElement !== activeElement
+    ) {
+      this.#restoringFocus = true;
+      activeElement.focus({ preventScroll: true });
+      this.#restoringFocus = false;
+    }
+
+    if (horizontal) {
+      this.#itemsContainer.style.transform = `translate3d(${firstStart - scrollMargin}px, 0, 0)`;
+    } else {
+      this.#itemsContainer.style.transform = `translate3d(0, ${firstStart - scrollMargin}px, 0)`;
+    }
+
+    const items = entries.filter((entry) => !this.#scrollPlaceholders.has(entry.element));
+    this.#toggleFindProxies(items);
+    this.#scheduleMeasurement();
+    this.#syncMountedItems(items);
+    this.#dispatchRangeChange(virtualItems);
+    if (swapped) {
+      this.#scrollPlaceholderPool = [];
+      const first = virtualItems[0];
+      const last = virtualItems[virtualItems.length - 1];
+      this.dispatchEvent(
+        new CustomEvent<VirtualListPlaceholderSwapDetail>('placeholderswap', {
+          detail: { startIndex: first?.index ?? -1, endIndex: last?.index ?? -1 },
+        }),
+      );
+    }
+    this.#syncScrollingState();
+    this.#checkLoadThreshold(virtualItems);
+  }
+
+  /**
+   * Samples the scroll speed and reports whether placeholders should stand in
+   * for items: from a frame scrolling faster than `placeholder-velocity`
+   * until scrolling stops, and only when a `scroll-placeholder` is provided.
+   */
+  #updatePlaceholders(instance: ListVirtualizer): boolean {
+    if (!instance.isScrolling || !this.#getPlaceholderSource()) {
+      this.#scrollSample = null;
+      return false;
+    }
+
+    const offset = instance.scrollOffset ?? 0;
+    const sample = this.#scrollSample;
+    if (sample && sample.offset === offset) {
+      return this.#showingPlaceholders;
+    }
+    const time = performance.now();
+    this.#scrollSample = { offset, time };
+    if (this.#showingPlaceholders || !sample || time <= sample.time) {
+      return this.#showingPlaceholders;
+    }
+    return (Math.abs(offset - sample.offset) / (time - sample.time)) * 1000 >= this.#placeholderVelocity;
+  }
+
+  #getPlaceholderSource(): HTMLElement | undefined {
+    return Array.from(super.children).find(
+      (child): child is HTMLElement => child instanceof HTMLElement && child.slot === 'scroll-placeholder',
+    );
+  }
+
+  /**
+   * Returns the placeholder for the `position`th rendered row, sized like the
+   * item it stands in for so swapping items back in does not move anything.
+   */
+  #getScrollPlaceholder(position: number, size: number): HTMLDivElement | undefined {
+    let placeholder = this.#scrollPlaceholderPool[position];
+    if (!placeholder) {
+      const source = this.#getPlaceholderSource();
+      if (!source) {
+        return undefined;
+      }
+      placeholder = document.createElement('div');
+      placeholder.className = 'scroll-placeholder';
+      placeholder.setAttribute('part', 'scroll-placeholder');
+      placeholder.setAttribute('aria-hidden', 'true');
+      if (source instanceof HTMLTemplateElement) {
+        placeholder.appendChild(source.content.cloneNode(true));
+      } else {
+        const clone = source.cloneNode(true);
+        if (clone instanceof Element) {
+          clone.removeAttribute('slot');
+        }
+        placeholder.appendChild(clone);
+      }
+      this.#scrollPlaceholders.add(placeholder);
+      this.#scrollPlaceholderPool[position] = placeholder;
+    }
+
+    const horizontal = this.#orientation === 'horizontal';
+    placeholder.style.width = horizontal ? `${size}px` : '';
+    placeholder.style.height = horizontal ? '' : `${size}px`;
+    return placeholder;
+  }
+
+  #getStickyItem(virtualItems: VirtualItem[]): { item: VirtualItem; detached: boolean } | null {
+    const position = virtualItems.findIndex((virtualItem) => virtualItem.index === this.#activeStickyIndex);
+    const item = virtualItems[position];
+    if (!item) {
+      return null;
+    }
+    const next = virtualItems[position + 1];
+    return { item, detached: position === 0 && next !== undefined && next.index !== item.index + 1 };
+  }
+
+  #pinStickyHeader(
+    sticky: { item: VirtualItem; detached: boolean } | null,
+    entries: RenderedEntry[],
+    firstStart: number,
+  ): void {
+    const element = sticky ? entries.find((entry) => entry.index === sticky.item.index)?.element : undefined;
+
+    if (this.#stuckElement && this.#stuckElement !== element) {
+      this.#stuckElement.removeAttribute('data-stuck');
+      togglePart(this.#stuckElement, 'stuck', false);
+      if (this.#stuckElement !== this.#retainedElement) {
+        this.#clearItemPosition(this.#stuckElement);
+      }
+      this.#stuckElement = null;
+    }
+
+    if (!sticky || !element || !this.#virtualizer) {
+      return;
+    }
+
+    const { item } = sticky;
+    const scrollOffset = this.#virtualizer.scrollOffset ?? 0;
+    const next = this.#stickyIndexes[this.#stickyIndexes.indexOf(item.index) + 1];
+    const nextStart = next !== undefined ? this.#virtualizer.measurementsCache[next]?.start : undefined;
+    // The next header pushes the current one out as it reaches the edge.
+    const pinned = nextStart !== undefined ? Math.min(scrollOffset, nextStart - item.size) : scrollOffset;
+
+    if (!sticky.detached && pinned <= item.start) {
+      element.removeAttribute('data-stuck');
+      togglePart(element, 'stuck', false);
+      this.#stuckElement = null;
+      return;
+    }
+
+    // In flow, a relative offset keeps the header's space in the layout; a
+    // detached header is positioned absolutely over the window instead.
+    this.#stuckElement = element;
+    element.setAttribute('data-stuck', '');
+    togglePart(element, 'stuck', true);
+    if (sticky.detached) {
+      this.#positionItem(element, pinned - firstStart, 0, 1);
+    } else {
+      this.#positionedElements.add(element);
+      element.style.position = 'relative';
+      element.style.setProperty(this.#orientation === 'horizontal' ? 'left' : 'top', `${pinned - item.start}px`);
+    }
+    element.style.zIndex = '1';
+  }
+
+  #buildItemsLayout(entries: RenderedEntry[]): ItemsLayout {
+    const layout: ItemsLayout = { nodes: [], groups: new Map() };
+    let group: Node[] | null = null;
+    let groupHeader = -1;
+
+    for (const entry of entries) {
+      const grouped = this.#stickyIndexes.length > 0 && !this.#scrollPlaceholders.has(entry.element);
+      const header = grouped ? this.#findStickyIndex(entry.index) : -1;
+      if (header === -1) {
+        layout.nodes.push(entry.element);
+        continue;
+      }
+      if (!group || header !== groupHeader) {
+        const headerElement =
+          entries.find((candidate) => candidate.index === header)?.element ??
+          (this.#data ? undefined : this.#itemAt(header));
+        const wrapper = this.#getGroupElement(headerElement);
+        group = [];
+        groupHeader = header;
+        layout.nodes.push(wrapper);
+        layout.groups.set(wrapper, group);
+      }
+      group.push(entry.element);
+    }
+
+    return layout;
+  }
+
+  #getGroupElement(header: HTMLElement | undefined): HTMLDivElement {
+    let group = header ? this.#groupElements.get(header) : undefined;
+    if (!group) {
+      group = document.createElement('div');
+      group.className = 'group';
+      group.setAttribute('role', 'group');
+      this.#groupWrappers.add(group);
+      if (header) {
+        this.#groupElements.set(header, group);
+      }
+    }
+
+    updateAttribute(group, 'aria-labelledby', header?.id ? header.id : null);
+    updateAttribute(group, 'aria-label', header && !header.id ? (header.textContent?.trim() ?? '') : null);
+    return group;
+  }
+
+  #checkLoadThreshold(virtualItems: VirtualItem[]): void {
+    const threshold = this.#loadThreshold;
+    const instance = this.#virtualizer;
+    if (!threshold || !instance) {
+      return;
+    }
+
+    const count = this.#getCount();
+    if (count > 0 && virtualItems.length === 0) {
+      // Not laid out yet; the first real render decides.
+      return;
+    }
+
+    let nearStart: boolean;
+    let nearEnd: boolean;
+    if (threshold.unit === 'px') {
+      const offset = (instance.scrollOffset ?? 0) - this.#scrollMargin();
+      const rect = instance.scrollRect;
+      const viewport = rect ? (this.#orientation === 'horizontal' ? rect.width : rect.height) : 0;
+      nearStart = offset <= threshold.value;
+      nearEnd = instance.getTotalSize() - (offset + viewport) <= threshold.value;
+    } else {
+      const range = instance.range;
+      const startIndex = range?.startIndex ?? virtualItems[0]?.index ?? 0;
+      const endIndex = range?.endIndex ?? virtualItems[virtualItems.length - 1]?.index ?? -1;
+      nearStart = startIndex <= threshold.value;
+      nearEnd = count - 1 - endIndex <= threshold.value;
+    }
+
+    if (nearEnd) {
+      this.#requestLoad('end', count);
+    }
+    // An empty list has nothing to prepend to; only ask for the first page.
+    if (nearStart && count > 0) {
+      this.#requestLoad('start', count);
+    }
+  }
+
+  #requestLoad(direction: VirtualListLoadDirection, count: number): void {
+    if (this.#pendingLoads[direction] > 0 || this.#lastLoadCount[direction] === count) {
+      return;
+    }
+    this.#lastLoadCount[direction] = count;
+
+    if (direction === 'start') {
+      this.#prependPending = true;
+    }
+
+    const settle = (failed: boolean) => {
+      // Pick up light-DOM children appended by the loader before settling.
+      const records = this.#mutationObserver?.takeRecords() ?? [];
+      if (records.length > 0) {
+        this.#handleLightDomMutations(records);
+      }
+      this.#pendingLoads[direction] -= 1;
+      this.#syncLoadingState();
+      // A failed load is asked for again on the next scroll or change, not
+      // straight away from the update above.
+      if (failed) {
+        this.#lastLoadCount[direction] = -1;
+      }
+    };
+    const waitUntil = (promise: PromiseLike<unknown>) => {
+      this.#pendingLoads[direction] += 1;
+      this.#syncLoadingState();
+      Promise.resolve(promise).then(
+        () => settle(false),
+        () => settle(true),
+      );
+    };
+
+    this.dispatchEvent(
+      new CustomEvent<VirtualListLoadDetail>(direction === 'end' ? 'loadmore' : 'loadprevious', {
+        detail: { direction, waitUntil },
+      }),
+    );
+
+    const result = this.#loadMore?.(direction);
+    if (isThenable(result)) {
+      waitUntil(result);
+    }
+  }
+
+  #syncLoadingState(): void {
+    const { start, end } = this.#pendingLoads;
+    if (start + end > 0) {
+      this.setAttribute('aria-busy', 'true');
+    } else {
+      this.removeAttribute('aria-busy');
+    }
+
+    const loading = this.#loadingElement;
+    if (loading) {
+      loading.hidden = start + end === 0 || !this.#hasLoadingContent();
+      loading.dataset.position = end > 0 ? 'end' : 'start';
+    }
+    this.#updateVirtualizerOptions();
+  }
+
+  #hasLoadingContent(): boolean {
+    return Array.from(super.children).some((child) => child instanceof HTMLElement && child.slot === 'loading');
+  }
+
+  #getLoadingSize(direction: VirtualListLoadDirection): number {
+    const loading = this.#loadingElement;
+    if (!loading || loading.hidden || loading.dataset.position !== direction) {
+      return 0;
+    }
+    const size = this.#orientation === 'horizontal' ? loading.offsetWidth : loading.offsetHeight;
+    return size || this.#estimateSize;
+  }
+
+  #dispatchRangeChange(virtualItems: VirtualItem[]): void {
+    const range = this.#virtualizer?.range;
+    const overscanStart = virtualItems[0]?.index ?? -1;
+    const overscanEnd = virtualItems[virtualItems.length - 1]?.index ?? -1;
+    const next: VirtualListRangeChangeDetail = {
+      startIndex: range ? range.startIndex : overscanStart,
+      endIndex: range ? range.endIndex : overscanEnd,
+      overscanStart,
+      overscanEnd,
+    };
+    const previous = this.#lastRange;
+    if (
+      previous.startIndex === next.startIndex &&
+      previous.endIndex === next.endIndex &&
+      previous.overscanStart === next.overscanStart &&
+      previous.overscanEnd === next.overscanEnd
+    ) {
+      return;
+    }
+    this.#lastRange = next;
+    this.dispatchEvent(new CustomEvent<VirtualListRangeChangeDetail>('rangechange', { detail: { ...next } }));
+  }
+
+  /**
+   * Dispatches `itemunmount`/`itemmount` for items detached from or attached
+   * to the items container since the last render, and `itemhidden`/
+   * `itemvisible` as they leave or enter the viewport (overscan excluded). In
+   * data mode, a recycled element showing another key counts as unmounted and
+   * remounted; light-DOM items are their own identity.
+   */
+  #syncMountedItems(entries: RenderedEntry[]): void {
+    const range = this.#virtualizer?.range;
+    const next = new Map<HTMLElement, MountedItem>();
+    for (const { element, index } of entries) {
+      const inRange = !range || (index >= range.startIndex && index <= range.endIndex);
+      next.set(element, { index, key: this.#getItemKey(index), visible: inRange || element === this.#stuckElement });
+    }
+
+    const previous = this.#mountedItems;
+    this.#mountedItems = next;
+    const rekeyed = (before: MountedItem, after: MountedItem) => this.#data !== null && before.key !== after.key;
+    for (const [element, item] of previous) {
+      const current = next.get(element);
+      const unmounted = !current || rekeyed(item, current);
+      if (item.visible && (unmounted || !current.visible)) {
+        this.#dispatchItemEvent('itemhidden', element, item);
+      }
+      if (unmounted) {
+        this.#dispatchItemEvent('itemunmount', element, item);
+      }
+    }
+    for (const [element, item] of next) {
+      const before = previous.get(element);
+      const mounted = !before || rekeyed(before, item);
+      if (mounted) {
+        this.#dispatchItemEvent('itemmount', element, item);
+      }
+      if (item.visible && (mounted || !before.visible)) {
+        this.#dispatchItemEvent('itemvisible', element, item);
+      }
+    }
+  }
+
+  #dispatchItemEvent(type: string, element: HTMLElement, { index, key }: MountedItem): void {
+    this.dispatchEvent(new CustomEvent<VirtualListItemDetail>(type, { detail: { element, index, key } }));
+  }
+
+  #syncScrollingState(): void {
+    const scrolling = this.#virtualizer?.isScrolling ?? false;
+    if (scrolling === this.#scrolling) {
+      return;
+    }
+    this.#scrolling = scrolling;
+    this.toggleAttribute('scrolling', scrolling);
+    this.dispatchEvent(
+      new CustomEvent<VirtualListScrollDetail>(scrolling ? 'virtualscrollstart' : 'virtualscrollend', {
+        detail: { scrollOffset: this.scrollOffset },
+      }),
+    );
+  }
+
+  #applyItemState(item: HTMLElement, index: number, count: number): void {
+    // Every write is skipped when unchanged: items staying in range are
+    // re-applied on each frame and should not churn attribute mutations.
+    updateAttribute(item, 'data-index', String(index));
+    item.toggleAttribute('data-dragging', this.#drag?.fromIndex === index);
+    updateAttribute(item, 'tabindex', index === this.#activeIndex && !this.#formDisabled ? '0' : '-1');
+
+    // Tree nodes are counted within their sibling group.
+    const node = this.#treeNodes?.get(this.#sourceIndex(index));
+    updateAttribute(item, 'aria-setsize', String(node ? node.setSize : count));
+    updateAttribute(item, 'aria-posinset', String(node ? node.posInSet : index + 1));
+    if (node) {
+      updateAttribute(item, 'aria-level', String(node.level));
+      updateAttribute(item, 'aria-expanded', node.expandable ? String(this.isExpanded(index)) : null);
+    }
+
+    const role = item.getAttribute('role');
+    const selectable = this.#selectionMode !== 'none';
+    if (role === null || role === 'listitem' || role === 'option' || role === 'treeitem') {
+      updateAttribute(item, 'role', node ? 'treeitem' : selectable ? 'option' : 'listitem');
+    }
+    updateAttribute(
+      item,
+      'aria-selected',
+      selectable ? String(this.#selectedKeys.has(this.#getItemKey(index))) : null,
+    );
+
+    const key = this.#matchKeys.size > 0 ? this.#getItemKey(index) : null;
+    const match = key !== null && this.#matchKeys.has(key);
+    const current = match && key === this.#currentMatchKey;
+    updateAttribute(item, 'data-match', match ? (current ? 'current' : '') : null);
+    togglePart(item, 'match', match);
+    togglePart(item, 'current-match', current);
+  }
+
+  #findRetainedItem(
+    activeElement: Element | null,
+    virtualItems: VirtualItem[],
+  ): { element: HTMLElement; index: number; key: VirtualListKey } | null {
+    const element = this.#itemFromNode(activeElement);
+    if (!element) {
+      return null;
+    }
+
+    let index = -1;
+    if (this.#data) {
+      for (const [key, rendered] of this.#rendered) {
+        const current = rendered.index < this.#getCount() && this.#getItemKey(rendered.index) === key;
+        if (rendered.element === element && current) {
+          index = rendered.index;
+          break;
+        }
+      }
+    } else {
+      index = this.#viewIndex(this.#items.indexOf(element));
+    }
+
+    if (index === -1 || index >= this.#getCount() || virtualItems.some((item) => item.index === index)) {
+      return null;
+    }
+    return { element, index, key: this.#getItemKey(index) };
+  }
+
+  #positionItem(element: HTMLElement, offset: number, lane: number, lanes: number): void {
+    const horizontal = this.#orientation === 'horizontal';
+    const laneOffset = `${(lane * 100) / lanes}%`;
+    const laneSize = `${100 / lanes}%`;
+    this.#positionedElements.add(element);
+    element.style.position = 'absolute';
+    element.style.top = horizontal ? laneOffset : `${offset}px`;
+    element.style.left = horizontal ? `${offset}px` : laneOffset;
+    element.style.setProperty(horizontal ? 'height' : 'width', laneSize);
+    element.style.removeProperty(horizontal ? 'width' : 'height');
+  }
+
+  #clearItemPosition(element: HTMLElement): void {
+    this.#positionedElements.delete(element);
+    for (const property of ['position', 'top', 'left', 'width', 'height', 'z-index']) {
+      element.style.removeProperty(property);
+    }
+  }
+
+  #handleFocusOut(event: FocusEvent): void {
+    if (this.#drag?.keyboard) {
+      // Tabbing or clicking away ends a keyboard move; focus lost for a
+      // moment while items are re-rendered does not.
+      queueMicrotask(() => {
+        const active = this.shadowRoot?.activeElement ?? null;
+        if (this.#drag?.keyboard && !(active && this.#itemsContainer?.contains(active))) {
+          this.#cancelDrag();
+        }
+      });
+    }
+    const retained = this.#retainedElement;
+    if (retained && !(event.relatedTarget instanceof Node && retained.contains(event.relatedTarget))) {
+      // Let focus settle before dropping the out-of-range item.
+      queueMicrotask(() => this.#render());
+    }
+  }
+
+  #itemFromNode(node: EventTarget | null): HTMLElement | null {
+    let current = node instanceof Node ? node : null;
+    while (current) {
+      const parent = current.parentNode;
+      if (parent && this.#isItemsParent(parent)) {
+        break;
+      }
+      current = parent;
+    }
+    return current instanceof HTMLElement && !this.#groupWrappers.has(current) && !this.#scrollPlaceholders.has(current)
+      ? current
+      : null;
+  }
+
+  /**
+   * Mounted items whose size is measured: all of them, or with a declared
+   * `item-size` only those opted in with `data-measure`. Measuring an item is
+   * also what makes the virtualizer observe its resizes.
+   */
+  #getMeasuredItems(): HTMLElement[] {
+    const items = this.#getMountedItems();
+    return this.#itemSize === null ? items : items.filter((item) => item.hasAttribute('data-measure'));
+  }
+
+  /** Mounted item elements in DOM order, looking through group wrappers. */
+  #getMountedItems(): HTMLElement[] {
+    const items: HTMLElement[] = [];
+    for (const child of Array.from(this.#itemsContainer?.children ?? [])) {
+      const elements = this.#groupWrappers.has(child) ? Array.from(child.children) : [child];
+      for (const element of elements) {
+        if (element instanceof HTMLElement && element !== this.#placeholder && !this.#scrollPlaceholders.has(element)) {
+          items.push(element);
+        }
+      }
+    }
+    return items;
+  }
+
+  #renderedIndexOf(item: HTMLElement): number {
+    const index = Number(item.getAttribute('data-index'));
+    return Number.isInteger(index) ? index : -1;
+  }
+
+  #getRenderedElement(index: number): HTMLElement | null {
+    return this.#getMountedItems().find((item) => this.#renderedIndexOf(item) === index) ?? null;
+  }
+
+  #refreshRenderedItems(): void {
+    const count = this.#getCount();
+    for (const item of this.#getMountedItems()) {
+      const index = this.#renderedIndexOf(item);
+      if (index !== -1) {
+        this.#applyItemState(item, index, count);
+      }
+    }
+  }
+
+  #handleFocusIn(event: FocusEvent): void {
+    if (this.#restoringFocus) {
+      return;
+    }
+    const item = this.#itemFromNode(event.target);
+    const index = item ? this.#renderedIndexOf(item) : -1;
+    if (index !== -1 && index !== this.#activeIndex) {
+      this.#activeIndex = index;
+      this.#refreshRenderedItems();
+    }
+  }
+
+  #handleClick(event: MouseEvent): void {
+    // The click that ends a pointer drag is not a selection.
+    if (this.#suppressClick) {
+      this.#suppressClick = false;
+      return;
+    }
+    const item = this.#itemFromNode(event.target);
+    const index = item ? this.#renderedIndexOf(item) : -1;
+    // Clicking a tree node toggles it; its own index is unaffected.
+    if (index !== -1 && !this.#formDisabled && this.#treeNodes?.get(this.#sourceIndex(index))?.expandable) {
+      this.#setExpanded(index, !this.isExpanded(index), true);
+    }
+    if (index === -1 || this.#selectionMode === 'none' || this.#formDisabled) {
+      return;
+    }
+    this.#select(index, { range: event.shiftKey, toggle: event.ctrlKey || event.metaKey });
+  }
+
+  #handleKeyDown(event: KeyboardEvent): void {
+    // Only handle keys pressed on an item itself, not on controls inside it.
+    const item = this.#itemFromNode(event.target);
+    if (!item || item !== event.target || event.altKey) {
+      return;
+    }
+
+    const index = this.#renderedIndexOf(item);
+    if (this.#handleTypeahead(event, index)) {
+      event.preventDefault();
+      return;
+    }
+    if (this.#handleReorderKey(event, index)) {
+      event.preventDefault();
+      return;
+    }
+    if (this.#handleTreeKey(event, index)) {
+      event.preventDefault();
+      return;
+    }
+    if (this.#handleSelectionKey(event, index)) {
+      event.preventDefault();
+      return;
+    }
+    if (event.ctrlKey || event.metaKey) {
+      return;
+    }
+
+    const target = this.#getNavigationTarget(event.key, index);
+    if (index === -1 || target === null) {
+      return;
+    }
+
+    event.preventDefault();
+    void this.focusIndex(target);
+  }
+
+  #handlePointerDown(event: PointerEvent): void {
+    this.#suppressClick = false;
+    if (!this.#canReorder() || this.#drag || event.button !== 0 || event.isPrimary === false) {
+      return;
+    }
+    // Controls inside an item keep their own pointer behavior.
+    const item = this.#itemFromNode(event.target);
+    const control = event.target instanceof Element
+      ? event.target.closest('input, textarea, select, button, a[href], [contenteditable]')
+      : null;
+    const index = item ? this.#renderedIndexOf(item) : -1;
+    if (index === -1 || (control && item?.contains(control))) {
+      return;
+    }
+
+    this.#pointerOrigin = { x: event.clientX, y: event.clientY, index };
+    window.addEventListener('pointermove', this.#onPointerMove);
+    window.addEventListener('pointerup', this.#onPointerUp);
+    window.addEventListener('pointercancel', this.#onPointerCancel);
+    window.addEventListener('keydown', this.#onDragKeyDown);
+  }
+
+  #handlePointerMove(event: PointerEvent): void {
+    const origin = this.#pointerOrigin;
+    if (!origin) {
+      return;
+    }
+    this.#pointerPosition = { x: event.clientX, y: event.clientY };
+    if (!this.#drag) {
+      if (Math.hypot(event.clientX - origin.x, event.clientY - origin.y) < DRAG_THRESHOLD) {
+        return;
+      }
+      this.#startDrag(origin.index, false);
+    }
+    event.preventDefault();
+    this.#updatePointerDrop();
+    this.#autoScroll();
+  }
+
+  #handlePointerUp(): void {
+    const dragging = this.#drag !== null && !this.#drag.keyboard;
+    this.#releasePointer();
+    if (dragging) {
+      this.#suppressClick = true;
+      this.#dropDrag();
+    }
+  }
+
+  #releasePointer(): void {
+    this.#pointerOrigin = null;
+    this.#pointerPosition = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pointermove', this.#onPointerMove);
+      window.removeEventListener('pointerup', this.#onPointerUp);
+      window.removeEventListener('pointercancel', this.#onPointerCancel);
+      window.removeEventListener('keydown', this.#onDragKeyDown);
+    }
+  }
+
+  /** Space grabs the focused item; while grabbed, arrows move it and Space, Enter or Escape end the move. */
+  #handleReorderKey(event: KeyboardEvent, index: number): boolean {
+    const drag = this.#drag;
+    if (!drag?.keyboard) {
+      // Space selects in a selectable list, which grabs with Ctrl/⌘+Space instead.
+      const modified = event.ctrlKey || event.metaKey;
+      const grab = event.key === ' ' && !event.shiftKey && modified === (this.#selectionMode !== 'none');
+      if (!this.#canReorder() || index === -1 || !grab) {
+        return false;
+      }
+      this.#startDrag(index, true);
+      this.#announce(
+        `Grabbed item ${index + 1} of ${this.#getCount()}. Use the arrow keys to move it, Space to drop, Escape to cancel.`,
+      );
+      return true;
+    }
+
+    if (event.key === ' ' || event.key === 'Enter') {
+      this.#dropDrag();
+      return true;
+    }
+    if (event.key === 'Escape') {
+      this.#cancelDrag();
+      return true;
+    }
+
+    const count = this.#getCount();
+    const current = this.#dropIndex(drag);
+    let target = this.#getNavigationTarget(event.key, current);
+    if (event.key === 'PageDown' || event.key === 'PageUp') {
+      target = null;
+    }
+    if (target === null) {
+      return event.key !== 'Tab';
+    }
+    const position = target > drag.fromIndex ? target + 1 : target;
+    this.#setDropPosition(position);
+    this.#virtualizer?.scrollToIndex(Math.min(position, count - 1));
+    this.#announce(`Moved to position ${target + 1} of ${count}.`);
+    return true;
+  }
 
-    if (changed) {
-      this.#updateVirtualizerOptions();
+  /** A sorted view decides the order itself, so it cannot be rearranged. */
+  #canReorder(): boolean {
+    return this.#reorderable && !this.#sort && !this.#formDisabled && !this.#isTree();
+  }
+
+  #startDrag(index: number, keyboard: boolean): void {
+    this.#drag = { fromIndex: index, position: index, keyboard };
+    this.setAttribute('dragging', '');
+    this.#render();
+  }
+
+  /** Final index of the dragged item if it were dropped now. */
+  #dropIndex(drag: DragState): number {
+    return drag.position > drag.fromIndex ? drag.position - 1 : drag.position;
+  }
+
+  #setDropPosition(position: number): void {
+    if (!this.#drag) {
+      return;
+    }
+    const next = Math.min(Math.max(0, position), this.#getCount());
+    if (next !== this.#drag.position) {
+      this.#drag.position = next;
+      this.#render();
     }
   }
 
-  #setupShadowDom(): void {
-    const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open' });
-    shadow.innerHTML = '';
+  #getDragSize(drag: DragState): number {
+    return this.#virtualizer?.measurementsCache[drag.fromIndex]?.size ?? this.#getEstimatedSize(drag.fromIndex);
+  }
 
-    const style = document.createElement('style');
-    style.textContent = `
-      :host {
-        display: block;
-        position: relative;
-        overflow: hidden;
-        contain: content;
-      }
+  #updatePointerDrop(): void {
+    const pointer = this.#pointerPosition;
+    if (!pointer || !this.#drag || !this.#virtualizer || !this.#sizerElement) {
+      return;
+    }
 
-      :host([hidden]) {
-        display: none !important;
-      }
+    const rect = this.#sizerElement.getBoundingClientRect();
+    const horizontal = this.#orientation === 'horizontal';
+    const offset = (horizontal ? pointer.x - rect.left : pointer.y - rect.top) + this.#scrollMargin();
 
-      .scroll {
-        overflow: auto;
-        height: 100%;
-        width: 100%;
-        box-sizing: border-box;
-        position: relative;
-        will-change: scroll-position;
-      }
+    // Drop before the first item whose midpoint is past the pointer. Starts
+    // only grow with the index within a lane, so with several lanes the
+    // search is limited to the lane under the pointer.
+    this.#virtualizer.getTotalSize(); // refreshes measurementsCache
+    const count = this.#getCount();
+    const lanes = this.#resolveLanes();
+    let measurements = this.#virtualizer.measurementsCache;
+    let end = Math.min(measurements.length, count);
+    if (lanes > 1) {
+      const cross = horizontal ? pointer.y - rect.top : pointer.x - rect.left;
+      const extent = horizontal ? rect.height : rect.width;
+      const lane = Math.min(lanes - 1, Math.max(0, Math.floor((cross / extent) * lanes)));
+      measurements = measurements.slice(0, end).filter((item) => item.lane === lane);
+      end = measurements.length;
+    }
 
-      .sizer {
-        position: relative;
-        width: 100%;
-        min-height: 100%;
+    let low = 0;
+    let high = end;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const item = measurements[middle]!;
+      if (item.start + item.size / 2 <= offset) {
+        low = middle + 1;
+      } else {
+        high = middle;
       }
+    }
+    // Past the last item of the lane, drop right after it.
+    const before = low < end ? measurements[low] : undefined;
+    const last = measurements[end - 1];
+    this.#setDropPosition(before ? before.index : last ? last.index + 1 : count);
+  }
 
-      .items {
-        position: absolute;
-        top: 0;
-        left: 0;
-        right: 0;
-        will-change: transform;
+  /** Scrolls while the pointer is near an edge of the scroll container. */
+  #autoScroll(): void {
+    if (this.#autoScrollPending || this.#getAutoScrollStep() === 0) {
+      return;
+    }
+    this.#autoScrollPending = true;
+    this.#nextFrame(() => {
+      this.#autoScrollPending = false;
+      const step = this.#getAutoScrollStep();
+      if (!this.#virtualizer || step === 0) {
+        return;
       }
+      this.#virtualizer.scrollToOffset(Math.max(0, (this.#virtualizer.scrollOffset ?? 0) + step));
+      this.#updatePointerDrop();
+      this.#autoScroll();
+    });
+  }
 
-      :host([orientation="horizontal"]) .sizer {
-        min-height: auto;
-        height: 100%;
-      }
+  #getAutoScrollStep(): number {
+    const pointer = this.#pointerPosition;
+    const target = this.#resolveScrollTarget();
+    if (!pointer || !this.#drag || this.#drag.keyboard || !target) {
+      return 0;
+    }
 
-      :host([orientation="horizontal"]) .items {
-        height: 100%;
-        display: flex;
-      }
-    `;
+    const horizontal = this.#orientation === 'horizontal';
+    const rect = target instanceof Element
+      ? target.getBoundingClientRect()
+      : { top: 0, left: 0, bottom: target.innerHeight, right: target.innerWidth };
+    const position = horizontal ? pointer.x : pointer.y;
+    const start = horizontal ? rect.left : rect.top;
+    const end = horizontal ? rect.right : rect.bottom;
 
-    const scroll = document.createElement('div');
-    scroll.className = 'scroll';
-    scroll.part = 'scroll';
+    if (position < start + AUTO_SCROLL_EDGE) {
+      return -Math.ceil(AUTO_SCROLL_MAX_STEP * Math.min(1, (start + AUTO_SCROLL_EDGE - position) / AUTO_SCROLL_EDGE));
+    }
+    if (position > end - AUTO_SCROLL_EDGE) {
+      return Math.ceil(AUTO_SCROLL_MAX_STEP * Math.min(1, (position - end + AUTO_SCROLL_EDGE) / AUTO_SCROLL_EDGE));
+    }
+    return 0;
+  }
 
-    const sizer = document.createElement('div');
-    sizer.className = 'sizer';
-    sizer.part = 'sizer';
+  #dropDrag(): void {
+    const drag = this.#drag;
+    if (!drag) {
+      return;
+    }
+    this.#endDrag();
 
-    const itemsContainer = document.createElement('div');
-    itemsContainer.className = 'items';
-    itemsContainer.part = 'items';
+    const fromIndex = drag.fromIndex;
+    const toIndex = this.#dropIndex(drag);
+    const count = this.#getCount();
+    if (toIndex === fromIndex) {
+      this.#announce(`Dropped item at its original position ${fromIndex + 1} of ${count}.`);
+      return;
+    }
 
-    sizer.appendChild(itemsContainer);
-    scroll.appendChild(sizer);
+    const event = new CustomEvent<VirtualListReorderDetail>('reorder', {
+      detail: { fromIndex, toIndex },
+      cancelable: true,
+    });
+    if (!this.dispatchEvent(event)) {
+      this.#announce('Move cancelled.');
+      return;
+    }
 
-    shadow.append(style, scroll);
+    // A filtered view moves the item next to its new neighbor in the pool.
+    const from = this.#sourceIndex(fromIndex);
+    const to = this.#sourceIndex(toIndex);
+    this.#moveFallbackKeys(from, to);
+    if (this.#data) {
+      const data = this.#data.slice();
+      data.splice(to, 0, ...data.splice(from, 1));
+      this.#data = data;
+    } else {
+      this.#moveItem(from, to);
+    }
+    this.#activeIndex = toIndex;
+    this.#updateVirtualizerOptions();
+    this.#announce(`Dropped item at position ${toIndex + 1} of ${count}.`);
 
-    this.#scrollElement = scroll;
-    this.#sizerElement = sizer;
-    this.#itemsContainer = itemsContainer;
+    if (drag.keyboard) {
+      void this.focusIndex(toIndex);
+    }
   }
 
-  #applyInitialAttributes(): void {
-    const orientation = this.getAttribute('orientation');
-    this.#orientation = orientation === 'horizontal' ? 'horizontal' : 'vertical';
-    for (const name of NUMBER_ATTRIBUTES) {
-      const value = this.getAttribute(name);
-      if (value != null) {
-        this.attributeChangedCallback(name, null, value);
-      }
+  /**
+   * Carries selection, matches and measured sizes held under index fallback
+   * keys along with an item moved from source index `from` to `to`.
+   */
+  #moveFallbackKeys(from: number, to: number): void {
+    // Keys from `getKey` and element ids already follow their items.
+    if (this.#data && this.#getKey) {
+      return;
     }
+    const move = (key: VirtualListKey): VirtualListKey => {
+      if (typeof key !== 'number') {
+        return key;
+      }
+      if (key === from) {
+        return to;
+      }
+      if (from < key && key <= to) {
+        return key - 1;
+      }
+      return to <= key && key < from ? key + 1 : key;
+    };
+    this.#selectedKeys = new Set(Array.from(this.#selectedKeys, move));
+    this.#matchKeys = new Set(Array.from(this.#matchKeys, move));
+    this.#currentMatchKey = this.#currentMatchKey === null ? null : move(this.#currentMatchKey);
+    this.#measuredSizes = new Map(Array.from(this.#measuredSizes, ([key, size]) => [move(key), size]));
   }
 
-  #mountVirtualizer(): void {
-    if (!this.#scrollElement || !this.#itemsContainer) {
+  /** Moves a pooled item, leaving the text and comments around the others in place. */
+  #moveItem(from: number, to: number): void {
+    const item = this.#items[from];
+    if (!item) {
       return;
     }
+    const rest = this.#items.filter((other) => other !== item);
+    const next = rest[to];
+    const last = rest[rest.length - 1];
+    const nodes = this.#nodes.filter((node) => node !== item);
+    nodes.splice(next ? nodes.indexOf(next) : last ? nodes.indexOf(last) + 1 : nodes.length, 0, item);
+    this.#setNodes(nodes);
+  }
 
-    if (this.#virtualizer) {
-      this.#virtualizer._willUpdate();
-      this.#virtualizer.setOptions(this.#createOptions(() => this.#virtualizer!));
-      this.#virtualizer.measure();
-      this.#render();
+  #cancelDrag(): void {
+    if (!this.#drag) {
+      this.#releasePointer();
       return;
     }
+    const keyboard = this.#drag.keyboard;
+    this.#endDrag();
+    if (keyboard) {
+      this.#announce('Move cancelled.');
+    }
+  }
 
-    const options = this.#createOptions(() => this.#virtualizer!);
-    const virtualizer = new Virtualizer<HTMLDivElement, HTMLElement>(options);
-    this.#virtualizer = virtualizer;
-    virtualizer._willUpdate();
-    this.#virtualizerCleanup = virtualizer._didMount();
+  #endDrag(): void {
+    this.#drag = null;
+    this.#releasePointer();
+    this.removeAttribute('dragging');
+    this.#placeholder?.remove();
     this.#render();
   }
 
-  #teardownVirtualizer(): void {
-    if (this.#rafId !== null && typeof cancelAnimationFrame === 'function') {
-      cancelAnimationFrame(this.#rafId);
-      this.#rafId = null;
+  #placeDropPlaceholder(layout: ItemsLayout, entries: RenderedEntry[], lanes: number, firstStart: number): void {
+    const placeholder = this.#placeholder;
+    const drag = this.#drag;
+    if (!placeholder || !drag || !this.#virtualizer) {
+      return;
     }
 
-    if (this.#virtualizerCleanup) {
-      this.#virtualizerCleanup();
-      this.#virtualizerCleanup = null;
+    const horizontal = this.#orientation === 'horizontal';
+    const size = this.#getDragSize(drag);
+    placeholder.style.width = horizontal ? `${size}px` : '';
+    placeholder.style.height = horizontal ? '' : `${size}px`;
+
+    if (lanes > 1) {
+      // Lanes have no flow to open a gap in; mark the target slot instead.
+      const target = this.#virtualizer.measurementsCache[Math.min(drag.position, this.#getCount() - 1)];
+      if (target) {
+        this.#positionItem(placeholder, target.start - firstStart, target.lane, lanes);
+        layout.nodes.push(placeholder);
+      }
+      return;
     }
 
-    if (this.#virtualizer) {
-      this.#virtualizer = null;
+    if (this.#positionedElements.has(placeholder)) {
+      this.#clearItemPosition(placeholder);
+    }
+    const before = entries.find((entry) => entry.index === drag.position)?.element;
+    const after = entries.find((entry) => entry.index === drag.position - 1)?.element;
+    const target = before ?? after;
+    if (!target) {
+      return;
     }
+    // Open the gap next to the target, inside its group wrapper if it has one.
+    const siblings = [layout.nodes, ...layout.groups.values()].find((nodes) => nodes.includes(target));
+    siblings?.splice(siblings.indexOf(target) + (before ? 0 : 1), 0, placeholder);
   }
 
-  #createOptions(instanceGetter: InstanceGetter): VirtualizerOptions<
-    HTMLDivElement,
-    HTMLElement
-  > {
-    return {
-      count: this.#items.length,
-      getScrollElement: () => this.#scrollElement,
-      estimateSize: (index: number) => this.#getEstimatedSize(index),
-      scrollToFn: elementScroll,
-      observeElementRect,
-      observeElementOffset,
-      measureElement: (element: HTMLElement, entry?: ResizeObserverEntry) => {
-        const instance = instanceGetter();
-        return instance ? measureElement(element, entry, instance) : element.offsetHeight;
-      },
-      onChange: (instance: Virtualizer<HTMLDivElement, HTMLElement>) => {
-        if (instance === this.#virtualizer) {
-          this.#render();
-        }
-      },
-      getItemKey: (index: number) => {
-        const item = this.#items[index];
-        return item?.id ?? index;
-      },
-      overscan: this.#overscan,
-      horizontal: this.#orientation === 'horizontal',
-      paddingStart: this.#paddingStart,
-      paddingEnd: this.#paddingEnd,
-      scrollPaddingStart: this.#scrollPaddingStart,
-      scrollPaddingEnd: this.#scrollPaddingEnd,
-    };
+  #announce(message: string): void {
+    if (this.#announcer) {
+      this.#announcer.textContent = message;
+    }
   }
 
-  #getEstimatedSize(index: number): number {
-    const item = this.#items[index];
-    const attr = item?.getAttribute('data-estimate-size');
-    if (attr) {
-      const parsed = Number(attr);
-      if (Number.isFinite(parsed)) {
-        return parsed;
-      }
+  #handleSelectionKey(event: KeyboardEvent, index: number): boolean {
+    if (this.#selectionMode === 'none' || this.#formDisabled || index === -1) {
+      return false;
     }
-    return this.#estimateSize;
+    if (event.key === ' ') {
+      this.#select(index, { range: event.shiftKey, toggle: this.#selectionMode === 'multiple' });
+      return true;
+    }
+    if (this.#selectionMode === 'multiple' && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'a') {
+      const count = this.#getCount();
+      this.#selectedKeys = new Set(Array.from({ length: count }, (_, i) => this.#getItemKey(i)));
+      this.#selectionChanged();
+      return true;
+    }
+    return false;
   }
 
-  #updateVirtualizerOptions(): void {
-    if (!this.#virtualizer) {
-      return;
+  #select(index: number, { range, toggle }: { range: boolean; toggle: boolean }): void {
+    const key = this.#getItemKey(index);
+
+    if (this.#selectionMode === 'single') {
+      this.#selectedKeys = toggle && this.#selectedKeys.has(key) ? new Set() : new Set([key]);
+    } else if (range && this.#selectionAnchor !== null) {
+      // Ranges are index based, so they work across items that are not mounted.
+      if (!toggle) {
+        this.#selectedKeys.clear();
+      }
+      const from = Math.min(this.#selectionAnchor, index);
+      const to = Math.max(this.#selectionAnchor, index);
+      for (let i = from; i <= to; i++) {
+        this.#selectedKeys.add(this.#getItemKey(i));
+      }
+    } else if (toggle) {
+      if (!this.#selectedKeys.delete(key)) {
+        this.#selectedKeys.add(key);
+      }
+      this.#selectionAnchor = index;
+    } else {
+      this.#selectedKeys = new Set([key]);
+      this.#selectionAnchor = index;
     }
 
-    this.#virtualizer._willUpdate();
-    this.#virtualizer.setOptions(this.#createOptions(() => this.#virtualizer!));
-    this.#virtualizer.measure();
-    this.#render();
+    this.#selectionChanged();
   }
 
-  #render(): void {
-    if (!this.#virtualizer || !this.#itemsContainer || !this.#sizerElement) {
+  #selectionChanged(): void {
+    this.#refreshRenderedItems();
+    this.#syncFormValue();
+    this.dispatchEvent(
+      new CustomEvent<VirtualListSelectionChangeDetail>('selectionchange', {
+        detail: { selectedIndices: this.selectedIndices },
+      }),
+    );
+  }
+
+  #getItemValue(index: number): string {
+    if (this.#data) {
+      return String(this.#getItemKey(index));
+    }
+    const item = this.#itemAt(index);
+    return item?.getAttribute('data-value') ?? item?.textContent?.trim() ?? '';
+  }
+
+  /** Hands the selected values and their validity to the owning form. */
+  #syncFormValue(): void {
+    const internals = this.#internals;
+    if (!internals) {
       return;
     }
 
-    const virtualItems = this.#virtualizer.getVirtualItems();
-    const totalSize = this.#virtualizer.getTotalSize();
-    const horizontal = this.#orientation === 'horizontal';
+    const values = this.selectedIndices.map((index) => this.#getItemValue(index));
+    if (this.#selectionMode === 'multiple') {
+      const data = new FormData();
+      for (const value of values) {
+        data.append(this.name, value);
+      }
+      internals.setFormValue(values.length > 0 ? data : null);
+    } else {
+      internals.setFormValue(values[0] ?? null);
+    }
 
-    if (horizontal) {
-      this.#sizerElement.style.width = `${totalSize}px`;
-      this.#sizerElement.style.height = '100%';
+    if (this.#required && values.length === 0 && !this.#formDisabled && this.#selectionMode !== 'none') {
+      internals.setValidity({ valueMissing: true }, 'Please select an item.', this.#scrollElement ?? undefined);
     } else {
-      this.#sizerElement.style.height = `${totalSize}px`;
-      this.#sizerElement.style.width = '100%';
+      internals.setValidity({});
     }
+  }
 
-    const fragment = document.createDocumentFragment();
+  #getNavigationTarget(key: string, index: number): number | null {
+    const horizontal = this.#orientation === 'horizontal';
+    const range = this.#virtualizer?.range;
+    const pageSize = range ? Math.max(1, range.endIndex - range.startIndex) : 1;
 
-    let firstStart = 0;
-    if (virtualItems.length > 0) {
-      firstStart = virtualItems[0]!.start;
+    switch (key) {
+      case horizontal ? 'ArrowRight' : 'ArrowDown':
+        return index + 1;
+      case horizontal ? 'ArrowLeft' : 'ArrowUp':
+        return index - 1;
+      case 'PageDown':
+        return index + pageSize;
+      case 'PageUp':
+        return index - pageSize;
+      case 'Home':
+        return 0;
+      case 'End':
+        return this.#getCount() - 1;
+      default:
+        return null;
     }
+  }
 
-    for (const virtualItem of virtualItems) {
-      const item = this.#items[virtualItem.index];
-      if (!item) {
-        continue;
-      }
+  #renderDataItem(index: number, rendered: Map<VirtualListKey, RenderedItem<T>>): HTMLElement | undefined {
+    if (!this.#data || !this.#renderItem || index >= this.#getCount()) {
+      return undefined;
+    }
 
-      item.setAttribute('aria-setsize', String(this.#items.length));
-      item.setAttribute('aria-posinset', String(virtualItem.index + 1));
+    const data = this.#dataAt(index);
+    const key = this.#getItemKey(index);
+    const previous = this.#rendered.get(key);
+    this.#rendered.delete(key);
+
+    let element: HTMLElement;
+    if (previous && previous.data === data && previous.index === index) {
+      element = previous.element;
+    } else {
+      const recycled = previous?.element ?? this.#takeHydratedItem(index) ?? this.#recyclePool.pop();
+      element = this.#renderItem(data, index, recycled);
+    }
 
-      fragment.appendChild(item);
+    if (!element.hasAttribute('role')) {
+      element.setAttribute('role', 'listitem');
     }
 
-    this.#itemsContainer.replaceChildren(fragment);
+    rendered.set(key, { element, data, index });
+    return element;
+  }
 
-    if (horizontal) {
-      this.#itemsContainer.style.transform = `translate3d(${firstStart}px, 0, 0)`;
-    } else {
-      this.#itemsContainer.style.transform = `translate3d(0, ${firstStart}px, 0)`;
+  #takeHydratedItem(index: number): HTMLElement | undefined {
+    const element = this.#hydratedItems.get(index);
+    this.#hydratedItems.delete(index);
+    return element;
+  }
+
+  #recycleOutOfRange(keys: VirtualListKey[]): void {
+    const visible = new Set(keys);
+    for (const [key, { element }] of this.#rendered) {
+      if (!visible.has(key)) {
+        this.#rendered.delete(key);
+        this.#recyclePool.push(element);
+      }
+    }
+    // Never keep more spare nodes than a single window needs.
+    if (this.#recyclePool.length > keys.length) {
+      this.#recyclePool.length = keys.length;
     }
+  }
 
-    this.#scheduleMeasurement();
+  #releaseRenderedItems(): void {
+    this.#rendered.clear();
+    this.#recyclePool = [];
   }
 
   #scheduleMeasurement(): void {
-    if (!this.#virtualizer || !this.#itemsContainer) {
+    if (!this.#virtualizer || !this.#itemsContainer || !this.#getMeasuredItems().length) {
       return;
     }
 
@@ -454,11 +4120,8 @@ export class VirtualListElement extends HTMLElement {
       if (!this.#virtualizer || !this.#itemsContainer) {
         return;
       }
-      const children = Array.from(this.#itemsContainer.children);
-      for (const child of children) {
-        if (child instanceof HTMLElement) {
-          this.#virtualizer.measureElement(child);
-        }
+      for (const item of this.#getMeasuredItems()) {
+        this.#virtualizer.measureElement(item);
       }
     };
 
@@ -472,19 +4135,223 @@ export class VirtualListElement extends HTMLElement {
     }
   }
 
-  override removeChild<T extends Node>(child: T): T {
-    if (child instanceof HTMLElement) {
-      const index = this.#items.indexOf(child);
-      if (index !== -1) {
-        if (child.parentNode) {
-          child.parentNode.removeChild(child);
+  #whenScrollSettled(
+    isSettled: (instance: ListVirtualizer) => boolean,
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      let frames = 0;
+      const check = () => {
+        const instance = this.#virtualizer;
+        if (!instance || frames >= MAX_SCROLL_SETTLE_FRAMES) {
+          resolve();
+          return;
         }
-        this.#items.splice(index, 1);
-        this.#updateVirtualizerOptions();
-        return child;
+        // Wait for pending measurements so dynamic sizes have been applied.
+        if (this.#rafId === null && !instance.isScrolling && isSettled(instance)) {
+          resolve();
+          return;
+        }
+        frames += 1;
+        this.#nextFrame(check);
+      };
+      this.#nextFrame(check);
+    });
+  }
+
+  #nextFrame(callback: () => void): void {
+    if (typeof requestAnimationFrame === 'function') {
+      requestAnimationFrame(() => callback());
+    } else {
+      setTimeout(callback, 16);
+    }
+  }
+
+  // The pool is the list's logical content: DOM methods called on the host
+  // change it at the position they would use in the light DOM, and the
+  // accessors below see every pooled node, rendered or not. The pooled nodes
+  // themselves are left as they are.
+
+  override get childNodes(): NodeListOf<ChildNode> {
+    return new PoolNodeList(this.#logicalNodes());
+  }
+
+  override get firstChild(): ChildNode | null {
+    return this.#nodes[0] ?? super.firstChild;
+  }
+
+  override get lastChild(): ChildNode | null {
+    return super.lastChild ?? this.#nodes[this.#nodes.length - 1] ?? null;
+  }
+
+  override hasChildNodes(): boolean {
+    return this.#nodes.length > 0 || super.hasChildNodes();
+  }
+
+  override get children(): HTMLCollection {
+    return new PoolCollection(this.#logicalChildren());
+  }
+
+  override get childElementCount(): number {
+    return this.#items.length + super.childElementCount;
+  }
+
+  override get firstElementChild(): Element | null {
+    return this.#items[0] ?? super.firstElementChild;
+  }
+
+  override get lastElementChild(): Element | null {
+    return super.lastElementChild ?? this.#items[this.#items.length - 1] ?? null;
+  }
+
+  override get textContent(): string {
+    return this.#logicalNodes()
+      .map((node) => (node.nodeType === Node.COMMENT_NODE ? '' : node.textContent))
+      .join('');
+  }
+
+  override set textContent(value: string | null) {
+    this.replaceChildren(...(value ? [value] : []));
+  }
+
+  override get innerHTML(): string {
+    if (this.#nodes.length === 0) {
+      return super.innerHTML;
+    }
+    const template = document.createElement('template');
+    template.content.append(...this.#logicalNodes().map((node) => node.cloneNode(true)));
+    return template.innerHTML;
+  }
+
+  override set innerHTML(value: string) {
+    if (!this.#initialized) {
+      super.innerHTML = value;
+      return;
+    }
+    this.replaceChildren(parseHTML(value));
+  }
+
+  override contains(other: Node | null): boolean {
+    for (let node = other; node; node = node.parentNode) {
+      if (node === this || this.#nodeIndex.has(node)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  override querySelector<E extends Element = Element>(selectors: string): E | null {
+    for (const child of this.#logicalChildren()) {
+      const match = child.matches(selectors) ? child : child.querySelector(selectors);
+      if (match) {
+        return match as E;
+      }
+    }
+    return null;
+  }
+
+  override querySelectorAll<E extends Element = Element>(selectors: string): NodeListOf<E> {
+    const matches: E[] = [];
+    for (const child of this.#logicalChildren()) {
+      if (child.matches(selectors)) {
+        matches.push(child as E);
       }
+      matches.push(...Array.from(child.querySelectorAll<E>(selectors)));
+    }
+    return new PoolNodeList(matches);
+  }
+
+  override insertAdjacentElement(where: InsertPosition, element: Element): Element | null {
+    if (!this.#insertsIntoPool(where)) {
+      return super.insertAdjacentElement(where, element);
+    }
+    this.#insertAdjacent(where, [element]);
+    return element;
+  }
+
+  override insertAdjacentHTML(where: InsertPosition, html: string): void {
+    if (!this.#insertsIntoPool(where)) {
+      super.insertAdjacentHTML(where, html);
+      return;
+    }
+    this.#insertAdjacent(where, [parseHTML(html)]);
+  }
+
+  override insertAdjacentText(where: InsertPosition, text: string): void {
+    if (!this.#insertsIntoPool(where)) {
+      super.insertAdjacentText(where, text);
+      return;
     }
+    this.#insertAdjacent(where, [text]);
+  }
+
+  override appendChild<N extends Node>(node: N): N {
+    if (!this.#initialized) {
+      return super.appendChild(node);
+    }
+    this.#spliceNodes([node], null, []);
+    return node;
+  }
+
+  override insertBefore<N extends Node>(node: N, child: Node | null): N {
+    // A reference that is not a child fails the way it does in the DOM.
+    if (!this.#initialized || (child !== null && !this.#nodeIndex.has(child) && child.parentNode !== this)) {
+      return super.insertBefore(node, child);
+    }
+    this.#spliceNodes([node], child, []);
+    return node;
+  }
+
+  override append(...nodes: Array<Node | string>): void {
+    if (!this.#initialized) {
+      super.append(...nodes);
+      return;
+    }
+    this.#spliceNodes(nodes, null, []);
+  }
+
+  override prepend(...nodes: Array<Node | string>): void {
+    if (!this.#initialized) {
+      super.prepend(...nodes);
+      return;
+    }
+    this.#spliceNodes(nodes, this.#nodes[0] ?? null, []);
+  }
+
+  override replaceChild<N extends Node>(node: Node, child: N): N {
+    if (!this.#initialized || !this.#nodeIndex.has(child)) {
+      return super.replaceChild(node, child);
+    }
+    if (node !== child) {
+      this.#spliceNodes([node], child, [child]);
+    }
+    return child;
+  }
+
+  override replaceChildren(...nodes: Array<Node | string>): void {
+    if (!this.#initialized) {
+      super.replaceChildren(...nodes);
+      return;
+    }
+    this.#flushMutations();
+    super.replaceChildren();
+    this.#spliceNodes(nodes, null, this.#nodes);
+  }
 
+  override removeChild<N extends Node>(child: N): N {
+    this.#flushMutations();
+    if (this.#initialized && this.#nodeIndex.has(child)) {
+      this.#spliceNodes([], null, [child]);
+      return child;
+    }
     return super.removeChild(child);
   }
+
+  #insertsIntoPool(where: InsertPosition): boolean {
+    const position = where.toLowerCase();
+    return this.#initialized && (position === 'afterbegin' || position === 'beforeend');
+  }
+
+  #insertAdjacent(where: InsertPosition, nodes: Array<Node | string>): void {
+    this.#spliceNodes(nodes, where.toLowerCase() === 'afterbegin' ? (this.#nodes[0] ?? null) : null, []);
+  }
 }
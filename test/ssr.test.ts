@@ -0,0 +1,62 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+
+import { renderVirtualList } from '../src/ssr';
+
+describe('renderVirtualList', () => {
+  const products = Array.from({ length: 100 }, (_, index) => ({ id: index, name: `Product "${index}"` }));
+
+  it('emits a declarative shadow root with the first window of items', () => {
+    const html = renderVirtualList({
+      items: products,
+      renderItem: (product) => `<article class="card">${product.name.replace(/"/g, '&quot;')}</article>`,
+      initialCount: 2,
+      attributes: { class: 'catalog', 'padding-start': 8, reverse: false },
+    });
+
+    expect(html.startsWith('<virtual-list role="list" class="catalog" padding-start="8" estimate-size="48">')).toBe(
+      true,
+    );
+    expect(html).toContain('<template shadowrootmode="open"><style>');
+    expect(html).toContain('<div class="sizer" part="sizer" style="height: 4808px; width: 100%">');
+    expect(html).toContain('style="transform: translate3d(0, 8px, 0)"');
+    expect(html).toContain(
+      '<article role="listitem" data-index="0" aria-setsize="100" aria-posinset="1" tabindex="0" class="card">' +
+        'Product &quot;0&quot;</article>' +
+        '<article role="listitem" data-index="1" aria-setsize="100" aria-posinset="2" tabindex="-1" class="card">',
+    );
+    expect(html).not.toContain('data-index="2"');
+    expect(html.endsWith('</template></virtual-list>')).toBe(true);
+  });
+
+  it('renders listbox semantics and keeps roles set by renderItem', () => {
+    const html = renderVirtualList({
+      items: ['a', 'b'],
+      renderItem: (text, index) => (index === 0 ? `<li role="separator">${text}</li>` : `<li>${text}</li>`),
+      orientation: 'horizontal',
+      estimateSize: 120,
+      attributes: { 'selection-mode': 'multiple' },
+      tagName: 'product-strip',
+    });
+
+    expect(html).toContain('<product-strip role="listbox" aria-multiselectable="true" selection-mode="multiple"');
+    expect(html).toContain('estimate-size="120" orientation="horizontal">');
+    expect(html).toContain('style="width: 240px; height: 100%"');
+    expect(html).toContain('<li data-index="0" aria-setsize="2" aria-posinset="1" aria-selected="false" tabindex="0" role="separator">');
+    expect(html).toContain('<li role="option" data-index="1"');
+    expect(() => renderVirtualList({ items: ['a'], renderItem: (text) => text })).toThrow(
+      'renderItem must return markup with a single root element',
+    );
+  });
+
+  it('decorates root elements whose quoted attribute values contain ">"', () => {
+    const html = renderVirtualList({
+      items: ['a'],
+      renderItem: (text) => `<li title="a>b" data-note='role=x>y'>${text}</li>`,
+    });
+
+    expect(html).toContain(
+      `<li role="listitem" data-index="0" aria-setsize="1" aria-posinset="1" tabindex="0" title="a>b" data-note='role=x>y'>a</li>`,
+    );
+  });
+});
@@ -0,0 +1,334 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+
+interface MockVirtualItem {
+  index: number;
+  start: number;
+  size: number;
+  end: number;
+}
+
+interface MockVirtualizerOptions {
+  count: number;
+  getScrollElement: () => HTMLDivElement | null;
+  estimateSize: (index: number) => number;
+  onChange?: (instance: InstanceType<typeof MockVirtualizerClass>) => void;
+  overscan?: number;
+  horizontal?: boolean;
+}
+
+const { MockVirtualizerClass, virtualizerInstances } = vi.hoisted(() => {
+  class MockVirtualizer {
+    options: MockVirtualizerOptions;
+    virtualItems: MockVirtualItem[] = [];
+    totalSize = 0;
+    didMountCleanupCalled = false;
+    range: { startIndex: number; endIndex: number } | null = null;
+    scrollToIndexCalls: number[] = [];
+
+    constructor(options: MockVirtualizerOptions) {
+      this.options = options;
+      instances.push(this);
+    }
+
+    _willUpdate(): void {}
+
+    _didMount(): () => void {
+      return () => {
+        this.didMountCleanupCalled = true;
+      };
+    }
+
+    setOptions(options: MockVirtualizerOptions): void {
+      this.options = options;
+    }
+
+    measure(): void {}
+
+    getVirtualItems(): MockVirtualItem[] {
+      return this.virtualItems;
+    }
+
+    getTotalSize(): number {
+      return this.totalSize;
+    }
+
+    scrollToIndex(index: number): void {
+      this.scrollToIndexCalls.push(index);
+    }
+
+    setVirtualState(items: MockVirtualItem[], totalSize: number): void {
+      this.virtualItems = items;
+      this.totalSize = totalSize;
+      this.options.onChange?.(this);
+    }
+  }
+
+  const instances: InstanceType<typeof MockVirtualizer>[] = [];
+
+  return {
+    MockVirtualizerClass: MockVirtualizer,
+    virtualizerInstances: instances,
+  };
+});
+
+type MockVirtualizer = InstanceType<typeof MockVirtualizerClass>;
+
+vi.mock('@tanstack/virtual-core', () => ({
+  Virtualizer: MockVirtualizerClass,
+  elementScroll: vi.fn(),
+  observeElementRect: vi.fn(),
+  observeElementOffset: vi.fn(),
+}));
+
+import { VirtualGridElement } from '../src/virtual-grid';
+
+describe('VirtualGridElement', () => {
+  beforeAll(() => {
+    if (!customElements.get('virtual-grid')) {
+      customElements.define('virtual-grid', VirtualGridElement);
+    }
+  });
+
+  beforeEach(() => {
+    virtualizerInstances.length = 0;
+    document.body.innerHTML = '';
+  });
+
+  const createRow = (cells: string[], rowSize?: number): HTMLElement => {
+    const row = document.createElement('div');
+    if (rowSize !== undefined) {
+      row.dataset.estimateSize = String(rowSize);
+    }
+    for (const text of cells) {
+      const cell = document.createElement('div');
+      cell.textContent = text;
+      row.appendChild(cell);
+    }
+    return row;
+  };
+
+  const connect = (element: VirtualGridElement): [MockVirtualizer, MockVirtualizer] => {
+    document.body.appendChild(element);
+    const [rows, columns] = virtualizerInstances.slice(-2);
+    if (!rows || !columns) {
+      throw new Error('Virtualizer instances were not created');
+    }
+    return [rows, columns];
+  };
+
+  it('runs a row and a column virtualizer on the same scroll container', () => {
+    const element = document.createElement('virtual-grid') as VirtualGridElement;
+    element.setAttribute('column-estimate-size', '80');
+    element.append(createRow(['a1', 'b1', 'c1'], 30), createRow(['a2', 'b2', 'c2']));
+
+    const [rows, columns] = connect(element);
+    const scroll = element.shadowRoot!.querySelector('.scroll');
+
+    expect(element.childElementCount).toBe(0);
+    expect(rows.options.count).toBe(2);
+    expect(rows.options.horizontal).toBe(false);
+    expect(rows.options.estimateSize(0)).toBe(30);
+    expect(rows.options.estimateSize(1)).toBe(48);
+    expect(columns.options.count).toBe(3);
+    expect(columns.options.horizontal).toBe(true);
+    expect(columns.options.estimateSize(0)).toBe(80);
+    expect(rows.options.getScrollElement()).toBe(scroll);
+    expect(columns.options.getScrollElement()).toBe(scroll);
+  });
+
+  it('renders only the visible cells with grid semantics', () => {
+    const element = document.createElement('virtual-grid') as VirtualGridElement;
+    element.append(
+      createRow(['a1', 'b1', 'c1']),
+      createRow(['a2', 'b2', 'c2']),
+      createRow(['a3', 'b3', 'c3']),
+    );
+
+    const [rows, columns] = connect(element);
+    columns.virtualItems = [
+      { index: 1, start: 120, size: 120, end: 240 },
+      { index: 2, start: 240, size: 120, end: 360 },
+    ];
+    columns.totalSize = 360;
+    rows.setVirtualState([{ index: 2, start: 96, size: 48, end: 144 }], 144);
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    const sizer = element.shadowRoot!.querySelector('.sizer') as HTMLDivElement;
+    const row = itemsContainer.children[0] as HTMLElement;
+
+    expect(element.getAttribute('role')).toBe('grid');
+    expect(element.getAttribute('aria-rowcount')).toBe('3');
+    expect(element.getAttribute('aria-colcount')).toBe('3');
+    expect(sizer.style.height).toBe('144px');
+    expect(sizer.style.width).toBe('360px');
+    expect(itemsContainer.children).toHaveLength(1);
+    expect(row.getAttribute('role')).toBe('row');
+    expect(row.getAttribute('aria-rowindex')).toBe('3');
+    expect(row.style.top).toBe('96px');
+    expect(Array.from(row.children).map((cell) => cell.textContent)).toEqual(['b3', 'c3']);
+
+    const cell = row.children[0] as HTMLElement;
+    expect(cell.getAttribute('role')).toBe('gridcell');
+    expect(cell.getAttribute('aria-colindex')).toBe('2');
+    expect(cell.style.left).toBe('120px');
+
+    // Scrolling by a column only detaches the cell that left the viewport,
+    // and rewrites no attributes.
+    const observer = new MutationObserver(() => {});
+    observer.observe(itemsContainer, {
+      childList: true,
+      subtree: true,
+      attributeFilter: ['aria-rowindex', 'aria-colindex'],
+    });
+    columns.virtualItems = [columns.virtualItems[1]!];
+    rows.setVirtualState([{ index: 2, start: 96, size: 48, end: 144 }], 144);
+    const records = observer.takeRecords();
+    observer.disconnect();
+    expect(records.flatMap((record) => Array.from(record.removedNodes))).toEqual([cell]);
+    expect(records.flatMap((record) => Array.from(record.addedNodes))).toEqual([]);
+    expect(records.filter((record) => record.type === 'attributes')).toEqual([]);
+  });
+
+  it('inserts rows added after mount at their DOM position', async () => {
+    const element = document.createElement('virtual-grid') as VirtualGridElement;
+    const [a, b] = [createRow(['a']), createRow(['b'])];
+    element.append(a, b);
+
+    const [rows, columns] = connect(element);
+    const texts = () => {
+      const count = rows.options.count;
+      rows.setVirtualState(
+        Array.from({ length: count }, (_, index) => ({ index, start: index * 48, size: 48, end: (index + 1) * 48 })),
+        count * 48,
+      );
+      return Array.from(element.shadowRoot!.querySelector('.items')!.children).map((row) => row.textContent);
+    };
+    columns.virtualItems = [{ index: 0, start: 0, size: 120, end: 120 }];
+
+    element.insertBefore(createRow(['c']), b);
+    element.prepend(createRow(['z']));
+    expect(texts()).toEqual(['z', 'a', 'c', 'b']);
+
+    // Rows added in one task keep their order once the observer captures them.
+    const y = createRow(['y']);
+    element.appendChild(y);
+    element.insertBefore(createRow(['x']), y);
+    await Promise.resolve();
+    expect(texts()).toEqual(['z', 'a', 'c', 'b', 'x', 'y']);
+
+    // Moving a captured row keeps its cells.
+    element.insertBefore(b, a);
+    expect(texts()).toEqual(['z', 'b', 'a', 'c', 'x', 'y']);
+    expect(element.childElementCount).toBe(0);
+  });
+
+  it('captures cells added to or removed from rows after mount', async () => {
+    const element = document.createElement('virtual-grid') as VirtualGridElement;
+    const first = createRow(['a1', 'b1', 'c1']);
+    const second = createRow(['a2']);
+    element.append(first, second);
+
+    const [rows, columns] = connect(element);
+    columns.virtualItems = [0, 1].map((index) => ({ index, start: index * 120, size: 120, end: (index + 1) * 120 }));
+    const render = () => {
+      rows.setVirtualState([0, 1].map((index) => ({ index, start: index * 48, size: 48, end: (index + 1) * 48 })), 96);
+      return Array.from(element.shadowRoot!.querySelector('.items')!.children).map((row) =>
+        Array.from(row.children).map((cell) => cell.textContent),
+      );
+    };
+    expect(render()).toEqual([['a1', 'b1'], ['a2']]);
+
+    // A cell inserted before a rendered one, and one appended.
+    const inserted = document.createElement('div');
+    inserted.textContent = 'x1';
+    first.insertBefore(inserted, first.children[1]!);
+    const appended = document.createElement('div');
+    appended.textContent = 'b2';
+    second.appendChild(appended);
+    await Promise.resolve();
+    expect(appended.getAttribute('role')).toBe('gridcell');
+    expect(render()).toEqual([['a1', 'x1'], ['a2', 'b2']]);
+    expect(columns.options.count).toBe(4);
+
+    first.children[0]!.remove();
+    expect(render()).toEqual([['x1', 'b1'], ['a2', 'b2']]);
+    expect(columns.options.count).toBe(3);
+  });
+
+  it('moves focus between cells with a roving tabindex', () => {
+    const element = document.createElement('virtual-grid') as VirtualGridElement;
+    element.append(createRow(['a1', 'b1', 'c1']), createRow(['a2', 'b2', 'c2']), createRow(['a3', 'b3']));
+
+    const [rows, columns] = connect(element);
+    const items = (indices: number[], size: number) =>
+      indices.map((index) => ({ index, start: index * size, size, end: (index + 1) * size }));
+    columns.virtualItems = items([0, 1], 120);
+    rows.setVirtualState(items([0, 1], 48), 144);
+
+    const cell = (text: string) =>
+      Array.from(element.shadowRoot!.querySelectorAll<HTMLElement>('[role="gridcell"]')).find(
+        (candidate) => candidate.textContent === text,
+      );
+    const press = (key: string, init: KeyboardEventInit = {}) =>
+      element.shadowRoot!.activeElement!.dispatchEvent(
+        new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init }),
+      );
+    const tabbable = () =>
+      Array.from(element.shadowRoot!.querySelectorAll('[tabindex="0"]')).map((node) => node.textContent);
+
+    expect(tabbable()).toEqual(['a1']);
+    cell('a1')!.focus();
+    press('ArrowRight');
+    expect(element.shadowRoot!.activeElement).toBe(cell('b1'));
+    press('ArrowDown');
+    expect(element.shadowRoot!.activeElement).toBe(cell('b2'));
+    expect(tabbable()).toEqual(['b2']);
+
+    // Cells outside the viewport are scrolled to and focused once mounted.
+    press('End');
+    expect(columns.scrollToIndexCalls.at(-1)).toBe(2);
+    expect(element.shadowRoot!.activeElement).toBe(cell('b2'));
+    columns.virtualItems = items([1, 2], 120);
+    rows.setVirtualState(items([0, 1], 48), 144);
+    expect(element.shadowRoot!.activeElement).toBe(cell('c2'));
+
+    // Shorter rows clamp the column.
+    press('End', { ctrlKey: true });
+    expect(rows.scrollToIndexCalls.at(-1)).toBe(2);
+    rows.setVirtualState(items([1, 2], 48), 144);
+    expect(element.shadowRoot!.activeElement).toBe(cell('b3'));
+    expect(tabbable()).toEqual(['b3']);
+  });
+
+  it('pools rows added or removed after mount and tears both virtualizers down', async () => {
+    const element = document.createElement('virtual-grid') as VirtualGridElement;
+    element.append(createRow(['a1']));
+
+    const [rows, columns] = connect(element);
+    const wide = createRow(['a2', 'b2']);
+    element.appendChild(wide);
+    await Promise.resolve();
+
+    expect(element.childElementCount).toBe(0);
+    expect(rows.options.count).toBe(2);
+    expect(columns.options.count).toBe(2);
+    expect(element.getAttribute('aria-colcount')).toBe('2');
+
+    // Scrolling leaves the grid's own counts alone.
+    const observer = new MutationObserver(() => {});
+    observer.observe(element, { attributes: true });
+    rows.setVirtualState([{ index: 1, start: 48, size: 48, end: 96 }], 96);
+    expect(observer.takeRecords()).toEqual([]);
+    observer.disconnect();
+
+    element.removeChild(wide);
+    expect(rows.options.count).toBe(1);
+    expect(columns.options.count).toBe(1);
+    expect(element.columnCount).toBe(1);
+    expect(element.getAttribute('aria-colcount')).toBe('1');
+
+    element.remove();
+    expect(rows.didMountCleanupCalled).toBe(true);
+    expect(columns.didMountCleanupCalled).toBe(true);
+  });
+});
@@ -6,11 +6,12 @@ interface MockVirtualItem {
   start: number;
   size: number;
   end: number;
+  lane?: number;
 }
 
 interface MockVirtualizerOptions {
   count: number;
-  getScrollElement: () => HTMLDivElement | null;
+  getScrollElement: () => Element | Window | null;
   estimateSize: (index: number) => number;
   scrollToFn?: unknown;
   observeElementRect?: unknown;
@@ -18,12 +19,16 @@ interface MockVirtualizerOptions {
   measureElement?: (element: HTMLElement, entry?: ResizeObserverEntry) => number;
   onChange?: (instance: InstanceType<typeof MockVirtualizerClass>) => void;
   getItemKey?: (index: number) => unknown;
+  rangeExtractor?: (range: { startIndex: number; endIndex: number; overscan: number; count: number }) => number[];
   overscan?: number;
+  lanes?: number;
   horizontal?: boolean;
   paddingStart?: number;
   paddingEnd?: number;
   scrollPaddingStart?: number;
   scrollPaddingEnd?: number;
+  scrollMargin?: number;
+  initialOffset?: number | (() => number);
 }
 
 const {
@@ -32,6 +37,9 @@ const {
   elementScroll,
   observeElementRect,
   observeElementOffset,
+  windowScroll,
+  observeWindowRect,
+  observeWindowOffset,
 } = vi.hoisted(() => {
   class MockVirtualizer {
     options: MockVirtualizerOptions;
@@ -42,6 +50,14 @@ const {
     measureCount = 0;
     measureElementCalls: HTMLElement[] = [];
     setOptionsCalls: MockVirtualizerOptions[] = [];
+    scrollOffset: number | null = 0;
+    isScrolling = false;
+    range: { startIndex: number; endIndex: number } | null = null;
+    measurementsCache: MockVirtualItem[] = [];
+    scrollRect: { width: number; height: number } | null = null;
+    scrollToIndexCalls: [number, unknown][] = [];
+    scrollToOffsetCalls: [number, unknown][] = [];
+    shouldAdjustScrollPositionOnItemSizeChange?: (item: MockVirtualItem, delta: number, instance: unknown) => boolean;
 
     constructor(options: MockVirtualizerOptions) {
       this.options = options;
@@ -50,6 +66,11 @@ const {
 
     _willUpdate(): void {
       this.willUpdateCount += 1;
+      // Like the real virtualizer, start at the initial offset once mounted.
+      const initialOffset = this.options.initialOffset;
+      if (this.willUpdateCount === 1 && typeof initialOffset === 'function') {
+        this.scrollOffset = initialOffset();
+      }
     }
 
     _didMount(): () => void {
@@ -61,6 +82,8 @@ const {
     setOptions(options: MockVirtualizerOptions): void {
       this.options = options;
       this.setOptionsCalls.push(options);
+      // Like the real virtualizer, never report items past the new count.
+      this.virtualItems = this.virtualItems.filter((item) => item.index < options.count);
     }
 
     measure(): void {
@@ -79,6 +102,24 @@ const {
       this.measureElementCalls.push(element);
     }
 
+    scrollToIndex(index: number, options?: unknown): void {
+      this.scrollToIndexCalls.push([index, options]);
+    }
+
+    scrollToOffset(offset: number, options?: unknown): void {
+      this.scrollToOffsetCalls.push([offset, options]);
+      this.scrollOffset = offset;
+    }
+
+    getOffsetForIndex(index: number): readonly [number, string] | undefined {
+      const item = this.virtualItems.find((virtualItem) => virtualItem.index === index);
+      return item ? [item.start, 'start'] : undefined;
+    }
+
+    getOffsetForAlignment(offset: number): number {
+      return Math.max(0, Math.min(offset, this.totalSize));
+    }
+
     setVirtualState(items: MockVirtualItem[], totalSize: number): void {
       this.virtualItems = items;
       this.totalSize = totalSize;
@@ -94,6 +135,9 @@ const {
     elementScroll: vi.fn(),
     observeElementRect: vi.fn(),
     observeElementOffset: vi.fn(),
+    windowScroll: vi.fn(),
+    observeWindowRect: vi.fn(),
+    observeWindowOffset: vi.fn(),
   };
 });
 
@@ -101,13 +145,23 @@ type MockVirtualizer = InstanceType<typeof MockVirtualizerClass>;
 
 vi.mock('@tanstack/virtual-core', () => ({
   Virtualizer: MockVirtualizerClass,
+  defaultRangeExtractor: (range: { startIndex: number; endIndex: number; overscan: number; count: number }) => {
+    const start = Math.max(range.startIndex - range.overscan, 0);
+    const end = Math.min(range.endIndex + range.overscan, range.count - 1);
+    return Array.from({ length: end - start + 1 }, (_, index) => start + index);
+  },
   elementScroll,
   observeElementRect,
   observeElementOffset,
+  windowScroll,
+  observeWindowRect,
+  observeWindowOffset,
   measureElement: (element: HTMLElement) => element.getBoundingClientRect().height || element.offsetHeight,
 }));
 
+import { renderVirtualList } from '../src/ssr';
 import { VirtualListElement } from '../src/virtual-list';
+import type { VirtualListItemDetail, VirtualListKey } from '../src/virtual-list';
 
 describe('VirtualListElement', () => {
   beforeAll(() => {
@@ -146,11 +200,13 @@ describe('VirtualListElement', () => {
 
   it('captures light DOM children and renders them inside the items container', () => {
     const element = document.createElement('virtual-list') as VirtualListElement;
-    element.append(createItem('a', 'first'), document.createTextNode('ignore'), createItem('b', 'second'));
+    element.append(createItem('a', 'first'), document.createTextNode('between'), createItem('b', 'second'));
 
     const instance = connect(element);
 
-    expect(element.childElementCount).toBe(0);
+    expect(element.childNodes).toHaveLength(3);
+    expect(element.childNodes[1]!.textContent).toBe('between');
+    expect(element.childElementCount).toBe(2);
 
     const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
     expect(itemsContainer.children.length).toBe(0);
@@ -163,7 +219,7 @@ describe('VirtualListElement', () => {
       96,
     );
 
-    expect(itemsContainer.children).toHaveLength(2);
+    expect(itemsContainer.childNodes).toHaveLength(2);
     expect(itemsContainer.children[0]).toBeInstanceOf(HTMLElement);
     expect(itemsContainer.children[0]!.id).toBe('first');
     expect(itemsContainer.children[1]!.id).toBe('second');
@@ -273,7 +329,7 @@ describe('VirtualListElement', () => {
     await Promise.resolve();
     await new Promise((resolve) => setTimeout(resolve, 0));
 
-    expect(element.childNodes.length).toBe(0);
+    expect(element.lastChild).toBe(newItem);
     expect(instance.setOptionsCalls.length).toBeGreaterThan(previousCallCount);
     expect(instance.setOptionsCalls.at(-1)?.count).toBe(3);
     expect(instance.options.count).toBe(3);
@@ -303,20 +359,24 @@ describe('VirtualListElement', () => {
     expect(instance.options.count).toBe(2);
   });
 
-  it('ignores non-element nodes appended to the light DOM', async () => {
+  it('keeps text and comment nodes in place without rendering or counting them', async () => {
     const element = document.createElement('virtual-list') as VirtualListElement;
-    element.append(createItem('only'));
+    const only = createItem('only');
+    element.append(only);
 
     const instance = connect(element);
     instance.setVirtualState([{ index: 0, start: 0, size: 24, end: 24 }], 48);
 
-    element.appendChild(document.createTextNode('text node'));
-    element.appendChild(document.createComment('comment'));
+    const text = document.createTextNode('text node');
+    const comment = document.createComment('comment');
+    element.appendChild(text);
+    element.appendChild(comment);
 
     await Promise.resolve();
     await Promise.resolve();
 
-    expect(element.childNodes.length).toBe(0);
+    expect(Array.from(element.childNodes)).toEqual([only, text, comment]);
+    expect(element.shadowRoot!.querySelector('.items')!.childNodes).toHaveLength(1);
     const latestOptions = instance.setOptionsCalls.at(-1);
     expect(latestOptions?.count).toBe(1);
   });
@@ -375,6 +435,1882 @@ describe('VirtualListElement', () => {
 
     expect(instance.measureElementCalls).toEqual(Array.from(itemsContainer.children));
   });
+
+  it('renders data items through renderItem and recycles elements', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<{ id: string }>;
+    const instance = connect(element);
+
+    const renderItem = vi.fn((data: { id: string }, _index: number, recycled?: HTMLElement) => {
+      const row = recycled ?? document.createElement('div');
+      row.textContent = data.id;
+      return row;
+    });
+
+    element.renderItem = renderItem;
+    element.getKey = (data) => data.id;
+    element.items = Array.from({ length: 1000 }, (_, index) => ({ id: `row-${index}` }));
+
+    const latestOptions = instance.setOptionsCalls.at(-1);
+    expect(latestOptions?.count).toBe(1000);
+    expect(latestOptions?.getItemKey?.(5)).toBe('row-5');
+
+    instance.setVirtualState(
+      [
+        { index: 0, start: 0, size: 24, end: 24 },
+        { index: 1, start: 24, size: 24, end: 48 },
+      ],
+      24000,
+    );
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    const [first, second] = Array.from(itemsContainer.children) as HTMLElement[];
+    expect(renderItem).toHaveBeenCalledTimes(2);
+    expect(first!.textContent).toBe('row-0');
+    expect(first!.getAttribute('role')).toBe('listitem');
+    expect(first!.getAttribute('aria-setsize')).toBe('1000');
+    expect(second!.getAttribute('data-index')).toBe('1');
+
+    instance.setVirtualState(
+      [
+        { index: 1, start: 24, size: 24, end: 48 },
+        { index: 2, start: 48, size: 24, end: 72 },
+      ],
+      24000,
+    );
+
+    expect(renderItem).toHaveBeenCalledTimes(3);
+    expect(renderItem.mock.calls.at(-1)?.[2]).toBe(first);
+    expect(Array.from(itemsContainer.children)).toEqual([second, first]);
+    expect(first!.textContent).toBe('row-2');
+    expect(first!.getAttribute('aria-posinset')).toBe('3');
+  });
+
+  it('applies data properties assigned before upgrade', () => {
+    const list = document.createElement('virtual-list') as VirtualListElement<string>;
+    Object.defineProperty(list, 'items', { value: ['a', 'b', 'c'], configurable: true, writable: true });
+    list.renderItem = (data) => createItem(data);
+
+    const instance = connect(list);
+
+    expect(Object.prototype.hasOwnProperty.call(list, 'items')).toBe(false);
+    expect(instance.options.count).toBe(3);
+  });
+
+  it('scrolls to an index and resolves once the item is rendered at its offset', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.append(createItem('a'), createItem('b'), createItem('c'));
+
+    const instance = connect(element);
+    instance.setVirtualState([{ index: 0, start: 0, size: 24, end: 24 }], 72);
+
+    let resolved = false;
+    const promise = element.scrollToIndex(10, { align: 'start', behavior: 'smooth' }).then(() => {
+      resolved = true;
+    });
+
+    expect(instance.scrollToIndexCalls).toEqual([[2, { align: 'start', behavior: 'smooth' }]]);
+
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(resolved).toBe(false);
+
+    instance.scrollOffset = 48;
+    instance.setVirtualState([{ index: 2, start: 48, size: 24, end: 72 }], 72);
+
+    await promise;
+    expect(resolved).toBe(true);
+    expect(element.scrollOffset).toBe(48);
+    expect(element.totalSize).toBe(72);
+  });
+
+  it('scrolls to offsets and pooled items that are not mounted', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const target = createItem('target');
+    element.append(createItem('a'), createItem('b'), target);
+
+    const instance = connect(element);
+    instance.totalSize = 200;
+    instance.scrollOffset = 100;
+
+    await element.scrollToOffset(100, { behavior: 'auto' });
+    expect(instance.scrollToOffsetCalls).toEqual([[100, { behavior: 'auto' }]]);
+
+    instance.scrollOffset = 48;
+    instance.setVirtualState([{ index: 2, start: 48, size: 24, end: 72 }], 200);
+    await element.scrollToItem(target, { align: 'center' });
+    expect(instance.scrollToIndexCalls.at(-1)).toEqual([2, { align: 'center' }]);
+
+    await expect(element.scrollToItem(createItem('stranger'))).rejects.toThrow(
+      'Element is not an item of this virtual list',
+    );
+  });
+
+  it('dispatches rangechange only when the rendered range changes', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.append(createItem('a'), createItem('b'), createItem('c'), createItem('d'));
+
+    const instance = connect(element);
+    const onRangeChange = vi.fn();
+    element.addEventListener('rangechange', onRangeChange);
+
+    const state = [
+      { index: 0, start: 0, size: 24, end: 24 },
+      { index: 1, start: 24, size: 24, end: 48 },
+      { index: 2, start: 48, size: 24, end: 72 },
+    ];
+    instance.range = { startIndex: 0, endIndex: 1 };
+    instance.setVirtualState(state, 96);
+    instance.setVirtualState(state, 96);
+
+    expect(onRangeChange).toHaveBeenCalledTimes(1);
+    expect(onRangeChange.mock.calls[0]![0].detail).toEqual({
+      startIndex: 0,
+      endIndex: 1,
+      overscanStart: 0,
+      overscanEnd: 2,
+    });
+
+    instance.range = { startIndex: 1, endIndex: 2 };
+    instance.setVirtualState(state, 96);
+
+    expect(onRangeChange).toHaveBeenCalledTimes(2);
+    expect(onRangeChange.mock.calls[1]![0].detail.startIndex).toBe(1);
+  });
+
+  it('reflects the scrolling state and dispatches virtualscrollstart/virtualscrollend', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.append(createItem('a'));
+
+    const instance = connect(element);
+    const onScrollStart = vi.fn();
+    const onScrollEnd = vi.fn();
+    element.addEventListener('virtualscrollstart', onScrollStart);
+    element.addEventListener('virtualscrollend', onScrollEnd);
+
+    const state = [{ index: 0, start: 0, size: 24, end: 24 }];
+    instance.isScrolling = true;
+    instance.scrollOffset = 12;
+    instance.setVirtualState(state, 24);
+    instance.setVirtualState(state, 24);
+
+    expect(element.hasAttribute('scrolling')).toBe(true);
+    expect(onScrollStart).toHaveBeenCalledTimes(1);
+    expect(onScrollStart.mock.calls[0]![0].detail).toEqual({ scrollOffset: 12 });
+    expect(onScrollEnd).not.toHaveBeenCalled();
+
+    instance.isScrolling = false;
+    instance.setVirtualState(state, 24);
+
+    expect(element.hasAttribute('scrolling')).toBe(false);
+    expect(onScrollEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a single item in the tab order and moves focus with arrow keys', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.append(createItem('a'), createItem('b'), createItem('c'));
+
+    const instance = connect(element);
+    instance.setVirtualState(
+      [
+        { index: 0, start: 0, size: 24, end: 24 },
+        { index: 1, start: 24, size: 24, end: 48 },
+        { index: 2, start: 48, size: 24, end: 72 },
+      ],
+      72,
+    );
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    const [first, second] = Array.from(itemsContainer.children) as HTMLElement[];
+    expect(first!.tabIndex).toBe(0);
+    expect(second!.tabIndex).toBe(-1);
+
+    first!.focus();
+    first!.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown', bubbles: true, cancelable: true }));
+
+    expect(element.shadowRoot!.activeElement).toBe(second);
+    expect(first!.tabIndex).toBe(-1);
+    expect(second!.tabIndex).toBe(0);
+    expect(instance.scrollToIndexCalls.at(-1)?.[0]).toBe(1);
+
+    const ignored = new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true, cancelable: true });
+    second!.dispatchEvent(ignored);
+    expect(ignored.defaultPrevented).toBe(false);
+  });
+
+  it('scrolls unrendered items into view before focusing them', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 50 }, (_, index) => createItem(`item ${index}`));
+    element.append(...items);
+
+    const instance = connect(element);
+    instance.setVirtualState([{ index: 0, start: 0, size: 24, end: 24 }], 1200);
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    const first = itemsContainer.firstElementChild as HTMLElement;
+    first.focus();
+    first.dispatchEvent(new KeyboardEvent('keydown', { key: 'End', bubbles: true, cancelable: true }));
+
+    expect(instance.scrollToIndexCalls.at(-1)?.[0]).toBe(49);
+
+    instance.scrollOffset = 1176;
+    instance.setVirtualState([{ index: 49, start: 1176, size: 24, end: 1200 }], 1200);
+
+    await vi.waitFor(() => {
+      expect(element.shadowRoot!.activeElement).toBe(items[49]);
+    });
+    expect(items[49]!.tabIndex).toBe(0);
+  });
+
+  it('keeps the focused item mounted out of flow after it leaves the range', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 20 }, (_, index) => createItem(`item ${index}`));
+    element.append(...items);
+
+    const instance = connect(element);
+    instance.measurementsCache = items.map((_, index) => ({
+      index,
+      start: index * 24,
+      size: 24,
+      end: (index + 1) * 24,
+    }));
+    instance.setVirtualState(
+      [
+        { index: 0, start: 0, size: 24, end: 24 },
+        { index: 1, start: 24, size: 24, end: 48 },
+      ],
+      480,
+    );
+
+    items[1]!.focus();
+    instance.setVirtualState(
+      [
+        { index: 10, start: 240, size: 24, end: 264 },
+        { index: 11, start: 264, size: 24, end: 288 },
+      ],
+      480,
+    );
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    expect(Array.from(itemsContainer.children)).toEqual([items[1], items[10], items[11]]);
+    expect(element.shadowRoot!.activeElement).toBe(items[1]);
+    expect(items[1]!.style.position).toBe('absolute');
+    expect(items[1]!.style.top).toBe('-216px');
+    expect(items[1]!.getAttribute('aria-posinset')).toBe('2');
+
+    items[1]!.blur();
+    await Promise.resolve();
+
+    expect(Array.from(itemsContainer.children)).toEqual([items[10], items[11]]);
+    expect(items[1]!.style.position).toBe('');
+  });
+
+  it('restores focus to a rendered item after re-rendering', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = [createItem('a'), createItem('b')];
+    element.append(...items);
+
+    const instance = connect(element);
+    const state = [
+      { index: 0, start: 0, size: 24, end: 24 },
+      { index: 1, start: 24, size: 24, end: 48 },
+    ];
+    instance.setVirtualState(state, 48);
+
+    items[1]!.focus();
+    element.setAttribute('orientation', 'horizontal');
+    instance.setVirtualState(state, 48);
+
+    expect(element.shadowRoot!.activeElement).toBe(items[1]);
+  });
+
+  it('switches to listbox semantics when selection is enabled', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('selection-mode', 'multiple');
+    element.append(createItem('a'), createItem('b'));
+
+    const instance = connect(element);
+    instance.setVirtualState(
+      [
+        { index: 0, start: 0, size: 24, end: 24 },
+        { index: 1, start: 24, size: 24, end: 48 },
+      ],
+      48,
+    );
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    const first = itemsContainer.children[0] as HTMLElement;
+    expect(element.getAttribute('role')).toBe('listbox');
+    expect(element.getAttribute('aria-multiselectable')).toBe('true');
+    expect(first.getAttribute('role')).toBe('option');
+    expect(first.getAttribute('aria-selected')).toBe('false');
+
+    element.setAttribute('selection-mode', 'none');
+
+    expect(element.getAttribute('role')).toBe('list');
+    expect(element.hasAttribute('aria-multiselectable')).toBe(false);
+    expect(first.getAttribute('role')).toBe('listitem');
+    expect(first.hasAttribute('aria-selected')).toBe(false);
+  });
+
+  it('selects with click, ctrl-click, shift-click ranges and ctrl+a', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('selection-mode', 'multiple');
+    const items = Array.from({ length: 100 }, (_, index) => createItem(`item ${index}`));
+    element.append(...items);
+
+    const instance = connect(element);
+    const onSelectionChange = vi.fn();
+    element.addEventListener('selectionchange', onSelectionChange);
+
+    instance.setVirtualState([{ index: 2, start: 48, size: 24, end: 72 }], 2400);
+    items[2]!.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+
+    expect(element.selectedIndices).toEqual([2]);
+    expect(items[2]!.getAttribute('aria-selected')).toBe('true');
+    expect(onSelectionChange.mock.calls[0]![0].detail).toEqual({ selectedIndices: [2] });
+
+    instance.setVirtualState([{ index: 90, start: 2160, size: 24, end: 2184 }], 2400);
+    items[90]!.dispatchEvent(new MouseEvent('click', { bubbles: true, shiftKey: true }));
+
+    expect(element.selectedIndices).toHaveLength(89);
+    expect(element.selectedIndices[0]).toBe(2);
+    expect(element.selectedIndices.at(-1)).toBe(90);
+
+    items[90]!.dispatchEvent(new MouseEvent('click', { bubbles: true, ctrlKey: true }));
+    expect(element.selectedIndices.at(-1)).toBe(89);
+    expect(items[90]!.getAttribute('aria-selected')).toBe('false');
+
+    items[90]!.dispatchEvent(new KeyboardEvent('keydown', { key: 'a', ctrlKey: true, bubbles: true }));
+    expect(element.selectedIndices).toHaveLength(100);
+    expect(element.selectedElements[0]).toBe(items[0]);
+    expect(onSelectionChange).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps at most one selected item in single mode', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<string>;
+    element.setAttribute('selection-mode', 'multiple');
+    const instance = connect(element);
+    element.renderItem = (data) => createItem(data);
+    element.items = ['a', 'b', 'c'];
+
+    element.selectedIndices = [0, 2];
+    expect(element.selectedItems).toEqual(['a', 'c']);
+
+    element.setAttribute('selection-mode', 'single');
+    expect(element.selectedIndices).toEqual([0]);
+    expect(element.hasAttribute('aria-multiselectable')).toBe(false);
+
+    instance.setVirtualState([{ index: 1, start: 24, size: 24, end: 48 }], 72);
+    const option = element.shadowRoot!.querySelector('.items')!.firstElementChild as HTMLElement;
+    option.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+    expect(element.selectedItems).toEqual(['b']);
+  });
+
+  it('dispatches loadmore near the end and tracks in-flight loads', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('load-more-threshold', '2');
+    const spinner = createItem('Loading…');
+    spinner.slot = 'loading';
+    element.append(createItem('a'), createItem('b'), createItem('c'), spinner);
+
+    const instance = connect(element);
+    expect(spinner.parentNode).toBe(element);
+    expect(instance.options.count).toBe(3);
+
+    let finish!: () => void;
+    const onLoadMore = vi.fn((event: CustomEvent) => {
+      event.detail.waitUntil(new Promise<void>((resolve) => (finish = resolve)));
+    });
+    const onLoadPrevious = vi.fn();
+    element.addEventListener('loadmore', onLoadMore as EventListener);
+    element.addEventListener('loadprevious', onLoadPrevious);
+
+    instance.range = { startIndex: 0, endIndex: 0 };
+    instance.setVirtualState([{ index: 0, start: 0, size: 24, end: 24 }], 72);
+
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+    expect(onLoadPrevious).toHaveBeenCalledTimes(1);
+    expect(element.getAttribute('aria-busy')).toBe('true');
+    const loading = element.shadowRoot!.querySelector('.loading') as HTMLElement;
+    expect(loading.hidden).toBe(false);
+    expect(loading.dataset.position).toBe('end');
+    expect(instance.options.paddingEnd).toBe(48);
+
+    instance.setVirtualState([{ index: 0, start: 0, size: 24, end: 24 }], 72);
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+
+    element.appendChild(createItem('d'));
+    finish();
+    await vi.waitFor(() => expect(element.hasAttribute('aria-busy')).toBe(false));
+
+    expect(instance.options.count).toBe(4);
+    expect(loading.hidden).toBe(true);
+    expect(instance.options.paddingEnd).toBe(0);
+    expect(onLoadMore).toHaveBeenCalledTimes(1);
+
+    instance.range = { startIndex: 1, endIndex: 2 };
+    instance.setVirtualState([{ index: 2, start: 48, size: 24, end: 72 }], 96);
+    expect(onLoadMore).toHaveBeenCalledTimes(2);
+  });
+
+  it('asks again for a load that failed', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('load-more-threshold', '1');
+    element.append(createItem('a'), createItem('b'));
+
+    const instance = connect(element);
+    const loadMore = vi.fn((direction: string) =>
+      direction === 'end' ? Promise.reject(new Error('offline')) : undefined,
+    );
+    element.loadMore = loadMore;
+    const endLoads = () => loadMore.mock.calls.filter(([direction]) => direction === 'end').length;
+
+    instance.range = { startIndex: 0, endIndex: 1 };
+    instance.setVirtualState([{ index: 1, start: 24, size: 24, end: 48 }], 48);
+    expect(endLoads()).toBe(1);
+    await vi.waitFor(() => expect(element.hasAttribute('aria-busy')).toBe(false));
+    // Settling does not retry by itself.
+    expect(endLoads()).toBe(1);
+
+    instance.setVirtualState([{ index: 1, start: 24, size: 24, end: 48 }], 48);
+    expect(endLoads()).toBe(2);
+    await vi.waitFor(() => expect(element.hasAttribute('aria-busy')).toBe(false));
+  });
+
+  it('awaits the loadMore callback and keeps the view stable when prepending', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<number>;
+    element.setAttribute('load-more-threshold', '50px');
+    element.renderItem = (data) => createItem(String(data));
+    element.getKey = (data) => data;
+    element.items = Array.from({ length: 10 }, (_, index) => index + 10);
+
+    const instance = connect(element);
+    const loadMore = vi.fn(async (direction: string) => {
+      if (direction === 'start') {
+        element.items = Array.from({ length: 20 }, (_, index) => index);
+      }
+    });
+    element.loadMore = loadMore;
+
+    instance.scrollOffset = 30;
+    instance.range = { startIndex: 1, endIndex: 3 };
+    instance.measurementsCache = Array.from({ length: 20 }, (_, index) => ({
+      index,
+      start: index * 24,
+      size: 24,
+      end: (index + 1) * 24,
+    }));
+    instance.setVirtualState([{ index: 1, start: 24, size: 24, end: 48 }], 2400);
+
+    expect(loadMore.mock.calls.map(([direction]) => direction)).toEqual(['start']);
+    expect(instance.scrollToOffsetCalls.at(-1)?.[0]).toBe(11 * 24 + 6);
+    await vi.waitFor(() => expect(element.hasAttribute('aria-busy')).toBe(false));
+  });
+
+  it('anchors prepended history to where the user scrolled during the load', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<number>;
+    element.setAttribute('load-more-threshold', '50px');
+    element.renderItem = (data) => createItem(String(data));
+    element.items = Array.from({ length: 10 }, (_, index) => index + 10);
+
+    const instance = connect(element);
+    let finish!: () => void;
+    element.addEventListener('loadprevious', ((event: CustomEvent) => {
+      event.detail.waitUntil(new Promise<void>((resolve) => (finish = resolve)));
+    }) as EventListener);
+
+    instance.measurementsCache = Array.from({ length: 20 }, (_, index) => ({
+      index,
+      start: index * 24,
+      size: 24,
+      end: (index + 1) * 24,
+    }));
+    instance.scrollOffset = 30;
+    instance.range = { startIndex: 1, endIndex: 3 };
+    instance.setVirtualState([{ index: 1, start: 24, size: 24, end: 48 }], 240);
+    expect(element.getAttribute('aria-busy')).toBe('true');
+
+    // The user keeps scrolling while the history loads.
+    instance.scrollOffset = 150;
+    instance.range = { startIndex: 6, endIndex: 8 };
+    instance.setVirtualState([{ index: 6, start: 144, size: 24, end: 168 }], 240);
+
+    element.items = Array.from({ length: 20 }, (_, index) => index);
+    finish();
+    await vi.waitFor(() => expect(element.hasAttribute('aria-busy')).toBe(false));
+
+    // Item 6 moved to 16 and stays 6px scrolled past its start.
+    expect(instance.scrollToOffsetCalls.at(-1)?.[0]).toBe(16 * 24 + 6);
+  });
+
+  it('positions items by lane when lanes are enabled', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('lanes', '3');
+    const items = Array.from({ length: 6 }, (_, index) => createItem(`card ${index}`));
+    element.append(...items);
+
+    const instance = connect(element);
+    expect(instance.options.lanes).toBe(3);
+
+    const state = [
+      { index: 0, start: 0, size: 100, end: 100, lane: 0 },
+      { index: 1, start: 0, size: 80, end: 80, lane: 1 },
+      { index: 2, start: 0, size: 120, end: 120, lane: 2 },
+      { index: 3, start: 80, size: 100, end: 180, lane: 1 },
+    ];
+    instance.setVirtualState(state, 180);
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    expect(itemsContainer.style.transform).toBe('translate3d(0, 0px, 0)');
+    expect(items[3]!.style.position).toBe('absolute');
+    expect(items[3]!.style.top).toBe('80px');
+    expect(items[3]!.style.left).toBe(`${100 / 3}%`);
+    expect(items[3]!.style.width).toBe(`${100 / 3}%`);
+    expect(items[3]!.getAttribute('aria-posinset')).toBe('4');
+
+    element.removeAttribute('lanes');
+    instance.setVirtualState(state, 180);
+
+    expect(instance.options.lanes).toBe(1);
+    expect(items[3]!.style.position).toBe('');
+    expect(items[3]!.style.width).toBe('');
+  });
+
+  it('derives the lane count from the viewport in auto mode', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('lanes', 'auto');
+    element.setAttribute('min-lane-size', '150');
+    element.append(createItem('a'), createItem('b'));
+
+    const instance = connect(element);
+    expect(instance.options.lanes).toBe(1);
+
+    instance.scrollRect = { width: 620, height: 400 };
+    instance.setVirtualState([{ index: 0, start: 0, size: 24, end: 24, lane: 0 }], 24);
+
+    expect(instance.options.lanes).toBe(4);
+  });
+
+  it('keeps the active sticky header rendered and pinned to the viewport', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 40 }, (_, index) => createItem(`item ${index}`));
+    items[0]!.dataset.sticky = '';
+    items[0]!.id = 'section-a';
+    items[20]!.dataset.sticky = '';
+    element.append(...items);
+
+    const instance = connect(element);
+    instance.measurementsCache = items.map((_, index) => ({
+      index,
+      start: index * 24,
+      size: 24,
+      end: (index + 1) * 24,
+    }));
+
+    expect(instance.options.rangeExtractor?.({ startIndex: 10, endIndex: 12, overscan: 1, count: 40 })).toEqual([
+      0, 9, 10, 11, 12, 13,
+    ]);
+
+    instance.scrollOffset = 240;
+    instance.setVirtualState(
+      [0, 9, 10, 11].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      960,
+    );
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    expect(itemsContainer.style.transform).toBe('translate3d(0, 216px, 0)');
+    expect(items[0]!.hasAttribute('data-stuck')).toBe(true);
+    expect(items[0]!.getAttribute('part')).toBe('stuck');
+    expect(items[0]!.style.position).toBe('absolute');
+    expect(items[0]!.style.top).toBe('24px');
+
+    const group = itemsContainer.children[0] as HTMLElement;
+    expect(itemsContainer.children).toHaveLength(1);
+    expect(group.getAttribute('role')).toBe('group');
+    expect(group.getAttribute('aria-labelledby')).toBe('section-a');
+    expect(Array.from(group.children)).toEqual([items[0], items[9], items[10], items[11]]);
+  });
+
+  it('offsets an in-flow sticky header and lets the next header push it out', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 10 }, (_, index) => createItem(`item ${index}`));
+    items[2]!.dataset.sticky = '';
+    items[4]!.dataset.sticky = '';
+    element.append(...items);
+
+    const instance = connect(element);
+    instance.measurementsCache = items.map((_, index) => ({
+      index,
+      start: index * 24,
+      size: 24,
+      end: (index + 1) * 24,
+    }));
+    instance.options.rangeExtractor?.({ startIndex: 3, endIndex: 5, overscan: 1, count: 10 });
+
+    instance.scrollOffset = 80;
+    instance.setVirtualState(
+      [2, 3, 4, 5, 6].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      240,
+    );
+
+    expect(items[2]!.style.position).toBe('relative');
+    expect(items[2]!.style.top).toBe('24px');
+    expect(items[2]!.getAttribute('part')).toBe('stuck');
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    const groups = Array.from(itemsContainer.children) as HTMLElement[];
+    expect(groups).toHaveLength(2);
+    expect(groups[1]!.getAttribute('aria-label')).toBe('item 4');
+    expect(groups[1]!.firstElementChild).toBe(items[4]);
+
+    instance.scrollOffset = 0;
+    instance.setVirtualState(
+      [0, 1, 2, 3, 4].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      240,
+    );
+    expect(items[2]!.hasAttribute('data-stuck')).toBe(false);
+    expect(items[2]!.hasAttribute('part')).toBe(false);
+  });
+
+  it('scrolls with the window and offsets items by the scroll margin', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('scroll-target', 'window');
+    element.append(createItem('one'), createItem('two'));
+    document.body.appendChild(element);
+
+    const sizer = element.shadowRoot!.querySelector('.sizer') as HTMLDivElement;
+    vi.spyOn(sizer, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 150, 300, 96));
+    element.setAttribute('overscan', '3');
+
+    const instance = virtualizerInstances[virtualizerInstances.length - 1]!;
+    expect(instance.options.getScrollElement()).toBe(window);
+    expect(instance.options.scrollToFn).toBe(windowScroll);
+    expect(instance.options.observeElementRect).toBe(observeWindowRect);
+    expect(instance.options.observeElementOffset).toBe(observeWindowOffset);
+    expect(instance.options.scrollMargin).toBe(150);
+    expect(element.shadowRoot!.querySelector('.scroll')!.classList.contains('external')).toBe(true);
+
+    instance.setVirtualState([{ index: 1, start: 198, size: 48, end: 246 }], 246);
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    expect(itemsContainer.style.transform).toBe('translate3d(0, 48px, 0)');
+
+    instance.scrollOffset = 180;
+    expect(element.scrollOffset).toBe(30);
+    void element.scrollToOffset(10);
+    expect(instance.scrollToOffsetCalls[instance.scrollToOffsetCalls.length - 1]?.[0]).toBe(160);
+  });
+
+  it('scrolls with an ancestor matched by selector or assigned as a property', () => {
+    const outer = document.createElement('div');
+    outer.className = 'scroller';
+    const inner = document.createElement('div');
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('scroll-target', '.scroller');
+    element.append(createItem('one'));
+    inner.appendChild(element);
+    outer.appendChild(inner);
+    document.body.appendChild(outer);
+
+    let instance = virtualizerInstances[virtualizerInstances.length - 1]!;
+    expect(instance.options.getScrollElement()).toBe(outer);
+    expect(instance.options.scrollToFn).toBe(elementScroll);
+
+    element.scrollTarget = inner;
+    expect(instance.didMountCleanupCalled).toBe(true);
+    instance = virtualizerInstances[virtualizerInstances.length - 1]!;
+    expect(instance.options.getScrollElement()).toBe(inner);
+
+    element.scrollTarget = null;
+    element.removeAttribute('scroll-target');
+    instance = virtualizerInstances[virtualizerInstances.length - 1]!;
+    expect(instance.options.getScrollElement()).toBe(element.shadowRoot!.querySelector('.scroll'));
+    expect(instance.options.scrollMargin).toBe(0);
+    expect(element.shadowRoot!.querySelector('.scroll')!.classList.contains('external')).toBe(false);
+  });
+
+  it('keeps its own scroll container when the scroll-target selector is invalid', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('scroll-target', '.scroller[');
+    element.append(createItem('one'));
+
+    expect(() => document.body.appendChild(element)).not.toThrow();
+    const instance = virtualizerInstances[virtualizerInstances.length - 1]!;
+    expect(instance.options.getScrollElement()).toBe(element.shadowRoot!.querySelector('.scroll'));
+  });
+
+  it('starts at the end and follows appends only while pinned there', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('reverse', '');
+    element.append(...Array.from({ length: 10 }, (_, index) => createItem(`message ${index}`)));
+
+    const instance = connect(element);
+    expect(instance.scrollToIndexCalls[instance.scrollToIndexCalls.length - 1]).toEqual([9, { align: 'end' }]);
+
+    instance.scrollRect = { width: 300, height: 100 };
+    instance.totalSize = 480;
+    instance.scrollOffset = 380;
+    element.appendChild(createItem('message 10'));
+    await Promise.resolve();
+    expect(instance.scrollToIndexCalls[instance.scrollToIndexCalls.length - 1]).toEqual([10, { align: 'end' }]);
+
+    const calls = instance.scrollToIndexCalls.length;
+    instance.totalSize = 528;
+    instance.scrollOffset = 100;
+    element.appendChild(createItem('message 11'));
+    await Promise.resolve();
+    expect(instance.scrollToIndexCalls).toHaveLength(calls);
+  });
+
+  it('does not ask for history when a reverse list mounts', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('reverse', '');
+    element.setAttribute('load-more-threshold', '50px');
+    element.append(...Array.from({ length: 20 }, (_, index) => createItem(`message ${index}`)));
+    const onLoadPrevious = vi.fn();
+    element.addEventListener('loadprevious', onLoadPrevious);
+
+    // The estimated size the real virtualizer knows before its first frame.
+    const totalSize = vi.spyOn(MockVirtualizerClass.prototype, 'getTotalSize').mockReturnValue(480);
+    const instance = connect(element);
+    totalSize.mockRestore();
+    expect(instance.scrollOffset).toBe(480);
+
+    instance.totalSize = 480;
+    instance.range = { startIndex: 18, endIndex: 19 };
+    instance.setVirtualState(
+      [18, 19].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      480,
+    );
+    expect(onLoadPrevious).not.toHaveBeenCalled();
+  });
+
+  it('keeps the visible message still when history is prepended', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('anchor', 'end');
+    const messages = Array.from({ length: 5 }, (_, index) => createItem(`message ${index}`));
+    element.append(...messages);
+
+    const instance = connect(element);
+    instance.measurementsCache = Array.from({ length: 7 }, (_, index) => ({
+      index,
+      start: index * 24,
+      size: 24,
+      end: (index + 1) * 24,
+    }));
+    instance.range = { startIndex: 2, endIndex: 4 };
+    instance.scrollRect = { width: 300, height: 60 };
+    instance.totalSize = 120;
+    instance.scrollOffset = 50;
+    instance.setVirtualState(instance.measurementsCache.slice(2, 5), 120);
+
+    const history = [createItem('older 0'), createItem('older 1')];
+    element.prepend(...history);
+    await Promise.resolve();
+
+    expect(instance.options.count).toBe(7);
+    expect(element.firstElementChild).toBe(history[0]);
+    // Message 2 moved from index 2 to 4; it stays 2px scrolled past its start.
+    expect(instance.scrollOffset).toBe(98);
+  });
+
+  it('inserts, moves and replaces pooled items at their DOM position', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const [a, b, c, x, y, z] = ['a', 'b', 'c', 'x', 'y', 'z'].map((id) => createItem(id, id)) as HTMLElement[];
+    element.append(a!, b!, c!);
+
+    const instance = connect(element);
+    const ids = () => Array.from(element.children).map((child) => child.id);
+
+    element.insertBefore(x!, b!);
+    expect(ids()).toEqual(['a', 'x', 'b', 'c']);
+
+    element.appendChild(a!);
+    expect(ids()).toEqual(['x', 'b', 'c', 'a']);
+
+    expect(element.replaceChild(y!, b!)).toBe(b);
+    element.prepend(z!);
+    expect(ids()).toEqual(['z', 'x', 'y', 'c', 'a']);
+    // The edits above reach the virtualizer together.
+    const callCount = instance.setOptionsCalls.length;
+    await Promise.resolve();
+    expect(instance.setOptionsCalls).toHaveLength(callCount + 1);
+    expect(instance.options.count).toBe(5);
+    expect(instance.options.getItemKey?.(2)).toBe('y');
+    expect(element.childNodes).toHaveLength(5);
+    expect(element.querySelector('#c')).toBe(c);
+    expect(element.querySelectorAll('[role="listitem"]')).toHaveLength(5);
+
+    element.replaceChildren(b!, a!);
+    expect(ids()).toEqual(['b', 'a']);
+    expect(element.childElementCount).toBe(2);
+    await Promise.resolve();
+    expect(instance.options.count).toBe(2);
+  });
+
+  it('follows before, after, replaceWith and remove called on rendered items', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const [a, b, c] = ['a', 'b', 'c'].map((id) => createItem(id, id)) as HTMLElement[];
+    element.append(a!, b!, c!);
+
+    const instance = connect(element);
+    instance.setVirtualState(
+      [0, 1, 2].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      72,
+    );
+
+    const x = createItem('x', 'x');
+    b!.before(x);
+    c!.after(createItem('w', 'w'));
+    a!.remove();
+    await Promise.resolve();
+
+    expect(Array.from(element.children).map((child) => child.id)).toEqual(['x', 'b', 'c', 'w']);
+    expect(instance.options.count).toBe(4);
+
+    c!.replaceWith(createItem('y', 'y'));
+    await Promise.resolve();
+    expect(Array.from(element.children).map((child) => child.id)).toEqual(['x', 'b', 'y', 'w']);
+    expect(c!.parentNode).toBeNull();
+    expect(x.getAttribute('role')).toBe('listitem');
+  });
+
+  it('pools insertAdjacentElement, innerHTML and textContent at their DOM position', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.append(createItem('a', 'a'));
+
+    const instance = connect(element);
+    const ids = () => Array.from(element.children).map((child) => child.id);
+
+    element.insertAdjacentElement('afterbegin', createItem('z', 'z'));
+    element.insertAdjacentHTML('beforeend', '<div id="y">y</div>');
+    expect(ids()).toEqual(['z', 'a', 'y']);
+
+    element.innerHTML = '<!--start--><div id="p">p</div> <div id="q">q</div>';
+    expect(ids()).toEqual(['p', 'q']);
+    expect(element.childNodes).toHaveLength(4);
+    expect(element.innerHTML).toBe('<!--start--><div id="p" role="listitem">p</div> <div id="q" role="listitem">q</div>');
+    expect(element.textContent).toBe('p q');
+    await Promise.resolve();
+    expect(instance.options.count).toBe(2);
+
+    element.textContent = '';
+    expect(element.childNodes).toHaveLength(0);
+    expect(element.hasChildNodes()).toBe(false);
+    await Promise.resolve();
+    expect(instance.options.count).toBe(0);
+  });
+
+  it('keeps comment markers in the pool and moves items to another list', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const start = document.createComment('start');
+    const end = document.createComment('end');
+    element.append(start, end);
+    const instance = connect(element);
+
+    const items = ['a', 'b', 'c'].map((id) => createItem(id, id));
+    for (const item of items) {
+      element.insertBefore(item, end);
+    }
+    await Promise.resolve();
+    expect(instance.options.count).toBe(3);
+    expect(Array.from(element.childNodes)).toEqual([start, ...items, end]);
+    // Pooled nodes keep the DOM's own view of themselves.
+    expect(Object.getOwnPropertyNames(items[1]!)).toEqual([]);
+    expect(items[1]!.parentNode).toBeNull();
+
+    const other = document.createElement('virtual-list') as VirtualListElement;
+    const otherInstance = connect(other);
+    other.appendChild(items[1]!);
+    await Promise.resolve();
+    expect(instance.options.count).toBe(2);
+    expect(otherInstance.options.count).toBe(1);
+    expect(Array.from(element.childNodes)).toEqual([start, items[0], items[2], end]);
+    expect(Array.from(other.childNodes)).toEqual([items[1]]);
+  });
+
+  const createReorderableList = () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('reorderable', '');
+    const items = ['a', 'b', 'c', 'd', 'e'].map((id) => createItem(id, id));
+    element.append(...items);
+
+    const instance = connect(element);
+    instance.measurementsCache = items.map((_, index) => ({ index, start: index * 20, size: 20, end: (index + 1) * 20 }));
+    instance.setVirtualState(instance.measurementsCache.slice(), 100);
+    const shadow = element.shadowRoot!;
+    vi.spyOn(shadow.querySelector('.sizer')!, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, 100));
+    vi.spyOn(shadow.querySelector('.scroll')!, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, 100));
+    return { element, items, instance };
+  };
+
+  const pointer = (type: string, target: EventTarget, clientY: number) => {
+    target.dispatchEvent(new MouseEvent(type, { bubbles: true, composed: true, button: 0, clientX: 10, clientY }));
+  };
+
+  it('reorders items by pointer drag with a placeholder at the drop position', () => {
+    const { element, items } = createReorderableList();
+    const reorder = vi.fn();
+    element.addEventListener('reorder', (event) => reorder((event as CustomEvent).detail));
+
+    pointer('pointerdown', items[1]!, 30);
+    pointer('pointermove', window, 75);
+
+    const placeholder = element.shadowRoot!.querySelector('.placeholder') as HTMLElement;
+    expect(element.hasAttribute('dragging')).toBe(true);
+    expect(items[1]!.hasAttribute('data-dragging')).toBe(true);
+    expect(placeholder.nextElementSibling).toBe(items[4]);
+    expect(placeholder.style.height).toBe('20px');
+
+    pointer('pointerup', window, 75);
+    items[1]!.click();
+
+    expect(reorder).toHaveBeenCalledWith({ fromIndex: 1, toIndex: 3 });
+    expect(Array.from(element.children).map((child) => child.id)).toEqual(['a', 'c', 'd', 'b', 'e']);
+    expect(element.hasAttribute('dragging')).toBe(false);
+    expect(placeholder.isConnected).toBe(false);
+  });
+
+  it('keeps the order when the reorder event is canceled', () => {
+    const { element, items } = createReorderableList();
+    element.addEventListener('reorder', (event) => event.preventDefault());
+
+    pointer('pointerdown', items[0]!, 10);
+    pointer('pointermove', window, 95);
+    pointer('pointerup', window, 95);
+
+    expect(Array.from(element.children).map((child) => child.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('auto-scrolls while dragging near the edge of the scroll container', () => {
+    vi.useFakeTimers();
+    const raf = vi.spyOn(globalThis, 'requestAnimationFrame' as keyof typeof globalThis);
+    (raf as Mock<[FrameRequestCallback], number>).mockImplementation((cb) => {
+      return setTimeout(() => cb(0), 16) as unknown as number;
+    });
+
+    const { items, instance } = createReorderableList();
+    pointer('pointerdown', items[2]!, 50);
+    pointer('pointermove', window, 98);
+    vi.advanceTimersByTime(16);
+
+    expect(instance.scrollToOffsetCalls[0]?.[0]).toBeGreaterThan(0);
+    pointer('pointerup', window, 50);
+    vi.runOnlyPendingTimers();
+  });
+
+  it('moves a grabbed item with the keyboard and announces each step', () => {
+    const { element, items } = createReorderableList();
+    const announcer = element.shadowRoot!.querySelector('[role="status"]')!;
+    const reorder = vi.fn();
+    element.addEventListener('reorder', (event) => reorder((event as CustomEvent).detail));
+    const press = (key: string) => {
+      items[1]!.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, composed: true }));
+    };
+
+    press(' ');
+    expect(announcer.textContent).toContain('Grabbed item 2 of 5');
+    press('ArrowDown');
+    press('ArrowDown');
+    expect(announcer.textContent).toBe('Moved to position 4 of 5.');
+    expect(element.shadowRoot!.querySelector('.placeholder')!.nextElementSibling).toBe(items[4]);
+
+    press(' ');
+    expect(reorder).toHaveBeenCalledWith({ fromIndex: 1, toIndex: 3 });
+    expect(announcer.textContent).toBe('Dropped item at position 4 of 5.');
+
+    press(' ');
+    press('ArrowUp');
+    press('Escape');
+    expect(announcer.textContent).toBe('Move cancelled.');
+    expect(reorder).toHaveBeenCalledTimes(1);
+  });
+
+  it('selects with Space and grabs with Ctrl+Space in a selectable list, and cancels the grab on focus loss', async () => {
+    const { element, items } = createReorderableList();
+    element.setAttribute('selection-mode', 'multiple');
+    const press = (key: string, ctrlKey = false) => {
+      items[1]!.dispatchEvent(new KeyboardEvent('keydown', { key, ctrlKey, bubbles: true, composed: true }));
+    };
+
+    press(' ');
+    expect(element.selectedIndices).toEqual([1]);
+    expect(element.hasAttribute('dragging')).toBe(false);
+
+    items[1]!.focus();
+    press(' ', true);
+    expect(element.hasAttribute('dragging')).toBe(true);
+    expect(element.selectedIndices).toEqual([1]);
+
+    const outside = document.createElement('button');
+    document.body.appendChild(outside);
+    outside.focus();
+    await Promise.resolve();
+    expect(element.hasAttribute('dragging')).toBe(false);
+    expect(element.shadowRoot!.querySelector('.placeholder')).toBeNull();
+  });
+
+  it('moves the selection with an item reordered in a data list without getKey', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<string>;
+    element.setAttribute('reorderable', '');
+    element.setAttribute('selection-mode', 'multiple');
+    const instance = connect(element);
+    element.renderItem = (data) => createItem(data);
+    element.items = ['a', 'b', 'c', 'd', 'e'];
+    instance.setVirtualState(
+      [0, 1, 2, 3, 4].map((index) => ({ index, start: index * 20, size: 20, end: (index + 1) * 20 })),
+      100,
+    );
+    element.selectedIndices = [1, 2];
+
+    const option = element.shadowRoot!.querySelector('.items')!.children[1] as HTMLElement;
+    const press = (key: string, ctrlKey = false) => {
+      option.dispatchEvent(new KeyboardEvent('keydown', { key, ctrlKey, bubbles: true, composed: true }));
+    };
+    press(' ', true);
+    press('ArrowDown');
+    press('ArrowDown');
+    press('Enter');
+
+    expect(element.items).toEqual(['a', 'c', 'd', 'b', 'e']);
+    expect(element.selectedItems).toEqual(['c', 'b']);
+    expect(element.selectedIndices).toEqual([1, 3]);
+  });
+
+  it('drops into the lane under the pointer when there are several lanes', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('reorderable', '');
+    element.setAttribute('lanes', '2');
+    const items = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => createItem(id, id));
+    element.append(...items);
+    const reorder = vi.fn();
+    element.addEventListener('reorder', (event) => reorder((event as CustomEvent).detail));
+
+    const instance = connect(element);
+    // Masonry: b fills the right lane while the others stack up on the left.
+    instance.measurementsCache = items.map((_, index) => {
+      const [start, size, lane] = index === 1 ? [0, 100, 1] : [(index - (index > 1 ? 1 : 0)) * 10, 10, 0];
+      return { index, start, size, end: start + size, lane };
+    });
+    instance.setVirtualState(instance.measurementsCache.slice(), 100);
+    const shadow = element.shadowRoot!;
+    vi.spyOn(shadow.querySelector('.sizer')!, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, 100));
+    vi.spyOn(shadow.querySelector('.scroll')!, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, 100));
+
+    const move = (type: string, target: EventTarget, clientX: number, clientY: number) => {
+      target.dispatchEvent(new MouseEvent(type, { bubbles: true, composed: true, button: 0, clientX, clientY }));
+    };
+    // 30px down the right lane is above the middle of b, so f lands before it.
+    move('pointerdown', items[5]!, 10, 45);
+    move('pointermove', window, 250, 30);
+    move('pointerup', window, 250, 30);
+
+    expect(reorder).toHaveBeenCalledWith({ fromIndex: 5, toIndex: 1 });
+  });
+
+  it('filters and sorts pooled items into a view', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<HTMLElement>;
+    const items = [5, 2, 8, 3, 4].map((value) => createItem(String(value), `n${value}`));
+    items[2]!.dataset.estimateSize = '60';
+    element.append(...items);
+    const viewChanges: unknown[] = [];
+    element.addEventListener('viewchange', (event) => viewChanges.push((event as CustomEvent).detail));
+
+    const instance = connect(element);
+    element.filter = (item) => Number(item.textContent) % 2 === 0;
+    element.sort = (a, b) => Number(b.textContent) - Number(a.textContent);
+
+    expect(instance.options.count).toBe(3);
+    expect([0, 1, 2].map((index) => instance.options.getItemKey?.(index))).toEqual(['n8', 'n4', 'n2']);
+    expect(instance.options.estimateSize(0)).toBe(60);
+    expect(viewChanges).toEqual([
+      { count: 3, total: 5 },
+      { count: 3, total: 5 },
+    ]);
+
+    instance.setVirtualState(
+      [0, 1].map((index) => ({ index, start: index * 48, size: 48, end: (index + 1) * 48 })),
+      144,
+    );
+    const rendered = Array.from(element.shadowRoot!.querySelector('.items')!.children) as HTMLElement[];
+    expect(rendered).toEqual([items[2], items[4]]);
+    expect(rendered[1]!.getAttribute('aria-posinset')).toBe('2');
+    expect(rendered[1]!.getAttribute('aria-setsize')).toBe('3');
+    expect(element.children).toHaveLength(5);
+
+    element.appendChild(createItem('6', 'n6'));
+    await Promise.resolve();
+    expect(instance.options.count).toBe(4);
+    expect(instance.options.getItemKey?.(1)).toBe('n6');
+    expect(viewChanges[viewChanges.length - 1]).toEqual({ count: 4, total: 6 });
+
+    element.filter = null;
+    element.sort = null;
+    expect(instance.options.count).toBe(6);
+    expect(instance.options.getItemKey?.(0)).toBe('n5');
+  });
+
+  it('keeps measured sizes with their items when the view changes', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<{ id: string; size: number }>;
+    element.getKey = (entry) => entry.id;
+    element.renderItem = (entry, _index, recycled) => {
+      const row = recycled ?? document.createElement('div');
+      row.textContent = entry.id;
+      return row;
+    };
+    element.items = ['a', 'b', 'c'].map((id, index) => ({ id, size: index }));
+
+    const instance = connect(element);
+    instance.setVirtualState(
+      [0, 1, 2].map((index) => ({ index, start: index * 48, size: 48, end: (index + 1) * 48 })),
+      144,
+    );
+    const row = element.shadowRoot!.querySelector('.items')!.children[2] as HTMLElement;
+    vi.spyOn(row, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, 90));
+    instance.options.measureElement?.(row);
+    instance.virtualItems = [];
+
+    element.filter = (entry) => entry.id !== 'a';
+    element.sort = (a, b) => b.size - a.size;
+
+    expect(instance.options.getItemKey?.(0)).toBe('c');
+    expect(instance.options.estimateSize(0)).toBe(90);
+    expect(instance.options.estimateSize(1)).toBe(48);
+  });
+
+  it('searches unrendered items and steps through the matches', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<{ id: string; name: string }>;
+    element.getKey = (entry) => entry.id;
+    element.getItemText = (entry) => entry.name;
+    element.renderItem = (entry, _index, recycled) => {
+      const row = recycled ?? document.createElement('div');
+      row.textContent = entry.name;
+      return row;
+    };
+    element.items = ['Apple', 'Banana', 'Cherry', 'Pineapple', 'Grape', 'Apricot'].map((name, index) => ({
+      id: `f${index}`,
+      name,
+    }));
+
+    const instance = connect(element);
+    instance.setVirtualState(
+      [0, 1].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      144,
+    );
+    const [apple, banana] = Array.from(element.shadowRoot!.querySelector('.items')!.children) as HTMLElement[];
+
+    expect(element.search('AP')).toEqual([0, 3, 4, 5]);
+    expect(apple!.getAttribute('data-match')).toBe('');
+    expect(apple!.getAttribute('part')).toBe('match');
+    expect(banana!.hasAttribute('data-match')).toBe(false);
+    expect(element.search((entry) => entry.name.length === 6)).toEqual([1, 2]);
+
+    element.search('ap');
+    instance.range = { startIndex: 1, endIndex: 2 };
+    void element.findNext();
+    expect(instance.scrollToIndexCalls.at(-1)).toEqual([3, { align: 'center' }]);
+    void element.findPrevious();
+    expect(instance.scrollToIndexCalls.at(-1)).toEqual([0, { align: 'center' }]);
+    expect(apple!.getAttribute('data-match')).toBe('current');
+    expect(apple!.getAttribute('part')).toBe('match current-match');
+    void element.findPrevious();
+    expect(instance.scrollToIndexCalls.at(-1)).toEqual([5, { align: 'center' }]);
+    expect(apple!.getAttribute('part')).toBe('match');
+
+    element.search('');
+    expect(apple!.hasAttribute('data-match')).toBe(false);
+    expect(apple!.hasAttribute('part')).toBe(false);
+  });
+
+  it('moves focus to the item starting with the typed characters', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.append(...['Bravo', 'alpha', 'Bongo', 'beta', 'Charlie'].map((text) => createItem(text)));
+
+    const instance = connect(element);
+    instance.setVirtualState(
+      [0, 1, 2, 3, 4].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      120,
+    );
+    const rendered = Array.from(element.shadowRoot!.querySelector('.items')!.children) as HTMLElement[];
+    const type = (key: string) => {
+      const event = new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true });
+      element.shadowRoot!.activeElement!.dispatchEvent(event);
+      return event;
+    };
+
+    rendered[0]!.focus();
+    expect(type('b').defaultPrevented).toBe(true);
+    expect(element.shadowRoot!.activeElement).toBe(rendered[2]);
+    type('b');
+    expect(element.shadowRoot!.activeElement).toBe(rendered[3]);
+    type('b');
+    expect(element.shadowRoot!.activeElement).toBe(rendered[0]);
+    type('r');
+    expect(element.shadowRoot!.activeElement).toBe(rendered[0]);
+
+    vi.useFakeTimers();
+    type('x');
+    vi.advanceTimersByTime(500);
+    type('c');
+    expect(element.shadowRoot!.activeElement).toBe(rendered[4]);
+  });
+
+  it('exposes unrendered items to find-in-page through hidden=until-found proxies', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('findable', '');
+    const items = [createItem('one'), createItem('two'), createItem('three')];
+    element.append(...items);
+
+    const instance = connect(element);
+    instance.measurementsCache = [0, 1, 2].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 }));
+    instance.setVirtualState([instance.measurementsCache[0]!], 72);
+
+    const container = element.shadowRoot!.querySelector('.find-proxies')!;
+    const proxies = Array.from(container.children) as HTMLElement[];
+    expect(proxies.map((proxy) => proxy.textContent)).toEqual(['two', 'three']);
+    expect(proxies.every((proxy) => proxy.getAttribute('hidden') === 'until-found')).toBe(true);
+
+    proxies[1]!.dispatchEvent(new Event('beforematch', { bubbles: true }));
+    expect(proxies[1]!.style.top).toBe('48px');
+    expect(instance.scrollToIndexCalls.at(-1)?.[0]).toBe(2);
+
+    instance.setVirtualState([instance.measurementsCache[2]!], 72);
+    expect(Array.from(container.children).map((proxy) => proxy.textContent)).toEqual(['one', 'two']);
+
+    // Updates patch the existing proxies instead of rebuilding them.
+    const observer = new MutationObserver(() => {});
+    observer.observe(container, { childList: true, subtree: true, characterData: true });
+    element.setAttribute('overscan', '4');
+    expect(observer.takeRecords()).toEqual([]);
+    element.append(createItem('four'));
+    await Promise.resolve();
+    const records = observer.takeRecords();
+    observer.disconnect();
+    expect(records.flatMap((record) => Array.from(record.addedNodes)).map((node) => node.textContent)).toEqual([
+      'four',
+    ]);
+    expect(container.children[1]).toBe(proxies[0]);
+
+    // Editing an item, rendered or not, refreshes its proxy.
+    items[1]!.textContent = 'deux';
+    await Promise.resolve();
+    expect(Array.from(container.children).map((proxy) => proxy.textContent)).toEqual(['one', 'deux', 'four']);
+
+    element.removeAttribute('findable');
+    expect(container.children).toHaveLength(0);
+  });
+
+  it('reads the find-in-page text of new entries only', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<{ name: string }>;
+    element.setAttribute('findable', '');
+    const getItemText = vi.fn((entry: { name: string }) => entry.name);
+    element.getItemText = getItemText;
+    element.renderItem = (entry) => createItem(entry.name);
+    const entries = ['a', 'b', 'c'].map((name) => ({ name }));
+    element.items = entries;
+    connect(element);
+    getItemText.mockClear();
+
+    element.items = [{ name: 'z' }, ...entries];
+    expect(getItemText.mock.calls.map(([entry]) => entry.name)).toEqual(['z']);
+    const proxies = element.shadowRoot!.querySelector('.find-proxies')!.children;
+    expect(Array.from(proxies).map((proxy) => proxy.textContent)).toEqual(['z', 'a', 'b', 'c']);
+  });
+
+  it('adopts a server-rendered shadow root and reuses its items', () => {
+    const html = renderVirtualList({
+      items: ['a', 'b', 'c'],
+      renderItem: (text) => `<div class="row">${text}</div>`,
+      initialCount: 2,
+    });
+    const template = new DOMParser()
+      .parseFromString(html, 'text/html')
+      .querySelector('template') as HTMLTemplateElement;
+    const element = document.createElement('virtual-list') as VirtualListElement<string>;
+    element.attachShadow({ mode: 'open' }).appendChild(template.content.cloneNode(true));
+    const shadow = element.shadowRoot!;
+    const [scroll, itemsContainer] = [shadow.querySelector('.scroll'), shadow.querySelector('.items')];
+    const [first, second] = Array.from(itemsContainer!.children) as HTMLElement[];
+
+    const instance = connect(element);
+    expect(shadow.querySelector('.scroll')).toBe(scroll);
+    expect(shadow.querySelectorAll('style, .announcer, .loading, .find-proxies')).toHaveLength(4);
+    expect(instance.options.getScrollElement()).toBe(scroll);
+    instance.setVirtualState([], 0);
+    expect(Array.from(itemsContainer!.children)).toEqual([first, second]);
+    expect((shadow.querySelector('.sizer') as HTMLElement).style.height).toBe('144px');
+
+    const renderItem = vi.fn((text: string, _index: number, recycled?: HTMLElement) => {
+      const row = recycled ?? document.createElement('div');
+      row.textContent = text.toUpperCase();
+      return row;
+    });
+    element.renderItem = renderItem;
+    element.items = ['a', 'b', 'c'];
+    instance.setVirtualState(
+      [0, 1].map((index) => ({ index, start: index * 48, size: 48, end: (index + 1) * 48 })),
+      144,
+    );
+
+    expect(renderItem.mock.calls.map((call) => call[2])).toEqual([first, second]);
+    expect(Array.from(itemsContainer!.children)).toEqual([first, second]);
+    expect(first!.textContent).toBe('A');
+    expect(first!.className).toBe('row');
+  });
+
+  const createFormList = () => {
+    const internals = { setFormValue: vi.fn(), setValidity: vi.fn() };
+    vi.spyOn(HTMLElement.prototype, 'attachInternals').mockReturnValue(internals as unknown as ElementInternals);
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = ['Red', 'Green', 'Blue'].map((text) => {
+      const item = createItem(text);
+      item.dataset.value = text.toLowerCase();
+      return item;
+    });
+    element.append(...items);
+    const instance = connect(element);
+    instance.setVirtualState(
+      [0, 1, 2].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      72,
+    );
+    return { element, items, internals };
+  };
+
+  it('submits the selected data-value through ElementInternals', () => {
+    const { element, items, internals } = createFormList();
+    element.setAttribute('selection-mode', 'single');
+    element.name = 'color';
+    element.required = true;
+
+    expect(VirtualListElement.formAssociated).toBe(true);
+    expect(element.getAttribute('aria-required')).toBe('true');
+    expect(internals.setFormValue).toHaveBeenLastCalledWith(null);
+    expect(internals.setValidity).toHaveBeenLastCalledWith(
+      { valueMissing: true },
+      'Please select an item.',
+      element.shadowRoot!.querySelector('.scroll'),
+    );
+
+    items[1]!.click();
+    expect(element.value).toBe('green');
+    expect(internals.setFormValue).toHaveBeenLastCalledWith('green');
+    expect(internals.setValidity).toHaveBeenLastCalledWith({});
+
+    element.setAttribute('selection-mode', 'multiple');
+    element.selectedIndices = [0, 2];
+    const submitted = internals.setFormValue.mock.calls.at(-1)?.[0] as FormData;
+    expect(submitted.getAll('color')).toEqual(['red', 'blue']);
+
+    element.formResetCallback();
+    expect(element.selectedIndices).toEqual([]);
+    expect(internals.setFormValue).toHaveBeenLastCalledWith(null);
+
+    element.formStateRestoreCallback(submitted);
+    expect(element.selectedIndices).toEqual([0, 2]);
+    element.setAttribute('selection-mode', 'single');
+    element.formStateRestoreCallback('green');
+    expect(element.selectedIndices).toEqual([1]);
+  });
+
+  it('ignores selection and leaves the tab order while the form disables it', () => {
+    const { element, items, internals } = createFormList();
+    element.setAttribute('selection-mode', 'multiple');
+    element.required = true;
+
+    element.formDisabledCallback(true);
+    expect(element.getAttribute('aria-disabled')).toBe('true');
+    expect(items.map((item) => item.tabIndex)).toEqual([-1, -1, -1]);
+    expect(internals.setValidity).toHaveBeenLastCalledWith({});
+
+    items[0]!.click();
+    expect(element.selectedIndices).toEqual([]);
+
+    element.formDisabledCallback(false);
+    expect(element.hasAttribute('aria-disabled')).toBe(false);
+    expect(items[0]!.tabIndex).toBe(0);
+    items[0]!.click();
+    expect(element.selectedIndices).toEqual([0]);
+  });
+
+  it('virtualizes the visible nodes of a tree declared with data-level', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.setAttribute('tree', '');
+    const folder = createItem('src', 'src');
+    folder.dataset.level = '1';
+    folder.setAttribute('aria-expanded', 'true');
+    const files = Array.from({ length: 5000 }, (_, index) => {
+      const file = createItem(`file-${index}.ts`, `file-${index}`);
+      file.dataset.level = '2';
+      return file;
+    });
+    const readme = createItem('README.md', 'readme');
+    readme.dataset.level = '1';
+    element.append(folder, ...files, readme);
+
+    const instance = connect(element);
+    expect(element.getAttribute('role')).toBe('tree');
+    expect(instance.options.count).toBe(5002);
+    instance.setVirtualState(
+      [0, 1, 2].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      5002 * 24,
+    );
+
+    expect(folder.getAttribute('role')).toBe('treeitem');
+    expect(folder.getAttribute('aria-level')).toBe('1');
+    expect(folder.getAttribute('aria-expanded')).toBe('true');
+    expect(folder.getAttribute('aria-setsize')).toBe('2');
+    expect(folder.getAttribute('aria-posinset')).toBe('1');
+    expect(files[1]!.getAttribute('aria-level')).toBe('2');
+    expect(files[1]!.getAttribute('aria-setsize')).toBe('5000');
+    expect(files[1]!.getAttribute('aria-posinset')).toBe('2');
+    expect(files[1]!.hasAttribute('aria-expanded')).toBe(false);
+
+    const observer = new MutationObserver(() => {});
+    observer.observe(files[4000]!, { attributes: true });
+    element.collapse(0);
+    instance.setVirtualState(
+      [0, 1].map((index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+      48,
+    );
+
+    expect(observer.takeRecords()).toHaveLength(0);
+    expect(instance.options.count).toBe(2);
+    expect(element.isExpanded(0)).toBe(false);
+    expect(folder.getAttribute('aria-expanded')).toBe('false');
+    expect(readme.getAttribute('aria-posinset')).toBe('2');
+    expect(Array.from(element.shadowRoot!.querySelector('.items')!.children)).toEqual([folder, readme]);
+
+    element.expand(0);
+    expect(instance.options.count).toBe(5002);
+    expect(element.expandedKeys).toEqual(['src']);
+  });
+
+  it('expands and collapses nested data by click and arrow keys', () => {
+    interface Node {
+      name: string;
+      children?: Node[];
+    }
+    const element = document.createElement('virtual-list') as VirtualListElement<Node>;
+    element.getKey = (node) => node.name;
+    element.getChildren = (node) => node.children;
+    element.renderItem = (node, _index, recycled) => {
+      const row = recycled ?? document.createElement('div');
+      row.textContent = node.name;
+      return row;
+    };
+    element.items = [
+      { name: 'docs', children: [{ name: 'guide.md' }, { name: 'api', children: [{ name: 'index.md' }] }] },
+      { name: 'package.json' },
+    ];
+    const changes: unknown[] = [];
+    element.addEventListener('expandedchange', (event) => changes.push((event as CustomEvent).detail));
+
+    const instance = connect(element);
+    const show = (count: number) =>
+      instance.setVirtualState(
+        Array.from({ length: count }, (_, index) => ({ index, start: index * 24, size: 24, end: (index + 1) * 24 })),
+        count * 24,
+      );
+    const rows = () => Array.from(element.shadowRoot!.querySelector('.items')!.children) as HTMLElement[];
+    const press = (target: HTMLElement, key: string) =>
+      target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+
+    expect(element.items).toHaveLength(2);
+    expect(instance.options.count).toBe(2);
+    show(2);
+
+    rows()[0]!.click();
+    expect(changes).toEqual([{ index: 0, key: 'docs', expanded: true }]);
+    expect(instance.options.count).toBe(4);
+    show(4);
+    expect(rows().map((row) => row.textContent)).toEqual(['docs', 'guide.md', 'api', 'package.json']);
+    expect(rows()[2]!.getAttribute('aria-level')).toBe('2');
+    expect(rows()[2]!.getAttribute('aria-posinset')).toBe('2');
+    expect(rows()[2]!.getAttribute('aria-expanded')).toBe('false');
+
+    rows()[2]!.focus();
+    press(rows()[2]!, 'ArrowRight');
+    expect(instance.options.count).toBe(5);
+    show(5);
+    press(rows()[2]!, 'ArrowRight');
+    expect(element.shadowRoot!.activeElement?.textContent).toBe('index.md');
+
+    press(rows()[3]!, 'ArrowLeft');
+    expect(element.shadowRoot!.activeElement?.textContent).toBe('api');
+    press(rows()[2]!, 'ArrowLeft');
+    expect(element.isExpanded(2)).toBe(false);
+    expect(changes.at(-1)).toEqual({ index: 2, key: 'api', expanded: false });
+
+    element.collapse(0);
+    show(2);
+    expect(rows().map((row) => row.textContent)).toEqual(['docs', 'package.json']);
+  });
+
+  const measureFromEstimates = (instance: MockVirtualizer) => {
+    instance.measure = () => {
+      let start = 0;
+      instance.measurementsCache = Array.from({ length: instance.options.count }, (_, index) => {
+        const size = instance.options.estimateSize(index);
+        const item = { index, start, size, end: start + size };
+        start += size;
+        return item;
+      });
+    };
+    instance.measure();
+  };
+
+  it('keeps the first visible item still when items above it change', async () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 10 }, (_, index) => createItem(`item ${index}`, `item-${index}`));
+    element.append(...items);
+    element.setAttribute('estimate-size', '50');
+
+    const instance = connect(element);
+    measureFromEstimates(instance);
+    expect(instance.shouldAdjustScrollPositionOnItemSizeChange).toBeUndefined();
+    instance.scrollOffset = 230;
+    instance.range = { startIndex: 4, endIndex: 7 };
+    instance.setVirtualState(instance.measurementsCache.slice(4, 8), 500);
+
+    const inserted = createItem('new', 'new');
+    inserted.dataset.estimateSize = '80';
+    element.prepend(inserted);
+    await Promise.resolve();
+    expect(instance.scrollToOffsetCalls.at(-1)?.[0]).toBe(310);
+
+    instance.range = { startIndex: 5, endIndex: 8 };
+    instance.setVirtualState(instance.measurementsCache.slice(5, 9), 580);
+    items[1]!.dataset.estimateSize = '100';
+    await Promise.resolve();
+    expect(instance.scrollToOffsetCalls.at(-1)?.[0]).toBe(360);
+
+    const calls = instance.scrollToOffsetCalls.length;
+    element.setAttribute('anchoring', 'none');
+    expect(instance.shouldAdjustScrollPositionOnItemSizeChange?.({} as never, 10, instance as never)).toBe(false);
+    element.prepend(createItem('another'));
+    expect(instance.scrollToOffsetCalls).toHaveLength(calls);
+  });
+
+  it('anchors horizontal data lists by key when entries are inserted before the viewport', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<{ id: string }>;
+    element.setAttribute('orientation', 'horizontal');
+    element.getKey = (entry) => entry.id;
+    element.renderItem = (entry, _index, recycled) => {
+      const card = recycled ?? document.createElement('div');
+      card.textContent = entry.id;
+      return card;
+    };
+    const entries = Array.from({ length: 6 }, (_, index) => ({ id: `c${index}` }));
+    element.items = entries;
+
+    const instance = connect(element);
+    measureFromEstimates(instance);
+    instance.scrollOffset = 100;
+    instance.range = { startIndex: 2, endIndex: 3 };
+    instance.setVirtualState(instance.measurementsCache.slice(2, 4), 288);
+
+    element.items = [{ id: 'x' }, { id: 'y' }, ...entries];
+    expect(instance.options.horizontal).toBe(true);
+    expect(instance.scrollToOffsetCalls.at(-1)?.[0]).toBe(196);
+  });
+
+  it('only attaches and detaches the items entering and leaving the range', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 10 }, (_, index) => createItem(`Item ${index}`));
+    element.append(...items);
+    const instance = connect(element);
+    const rangeAt = (first: number): MockVirtualItem[] =>
+      Array.from({ length: 4 }, (_, offset) => ({
+        index: first + offset,
+        start: (first + offset) * 20,
+        size: 20,
+        end: (first + offset + 1) * 20,
+      }));
+    instance.setVirtualState(rangeAt(0), 200);
+
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    const observer = new MutationObserver(() => {});
+    observer.observe(itemsContainer, { childList: true, subtree: true, attributes: true });
+
+    instance.setVirtualState(rangeAt(1), 200);
+    instance.setVirtualState(rangeAt(0), 200);
+    const records = observer.takeRecords();
+    observer.disconnect();
+
+    expect(Array.from(itemsContainer.children)).toEqual(items.slice(0, 4));
+    expect(records.flatMap((record) => Array.from(record.removedNodes))).toEqual([items[0], items[4]]);
+    expect(records.flatMap((record) => Array.from(record.addedNodes))).toEqual([items[4], items[0]]);
+    // Only the container's transform moves; retained items see no attribute writes.
+    const attributes = records.filter((record) => record.type === 'attributes');
+    expect(attributes.map((record) => [record.target, record.attributeName])).toEqual([
+      [itemsContainer, 'style'],
+      [itemsContainer, 'style'],
+    ]);
+  });
+
+  it('uses a declared item-size without measuring items unless they opt in', () => {
+    const callbacks: FrameRequestCallback[] = [];
+    vi.spyOn(globalThis, 'requestAnimationFrame').mockImplementation((callback) => callbacks.push(callback));
+
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 4 }, (_, index) => createItem(`Item ${index}`));
+    // The declared size wins over a disagreeing estimate or rendered size.
+    items[0]!.setAttribute('data-estimate-size', '80');
+    items[0]!.getBoundingClientRect = () => ({ height: 80 }) as DOMRect;
+    element.append(...items);
+    element.setAttribute('item-size', '20');
+    const instance = connect(element);
+    const rangeAt = (sizes: number[]): MockVirtualItem[] =>
+      sizes.map((size, index) => ({ index, start: index * 20, size, end: index * 20 + size }));
+
+    instance.setVirtualState(rangeAt([20, 20, 20, 20]), 80);
+    expect(callbacks).toHaveLength(0);
+    expect(instance.options.estimateSize(0)).toBe(20);
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    expect(itemsContainer.style.getPropertyValue('--item-size')).toBe('20px');
+
+    // Opted-in items are measured, and their real size replaces the declared one.
+    items[2]!.setAttribute('data-measure', '');
+    items[2]!.getBoundingClientRect = () => ({ height: 55 }) as DOMRect;
+    instance.setVirtualState(rangeAt([20, 20, 20, 20]), 80);
+    callbacks.at(-1)?.(0);
+    expect(instance.measureElementCalls).toEqual([items[2]]);
+    expect(instance.options.measureElement?.(items[2]!)).toBe(55);
+    expect([0, 1, 2, 3].map((index) => instance.options.estimateSize(index))).toEqual([20, 20, 55, 20]);
+
+    // Without a declared size every item is measured again, by a new virtualizer.
+    element.removeAttribute('item-size');
+    const remounted = virtualizerInstances.at(-1)!;
+    expect(remounted).not.toBe(instance);
+    expect(remounted.options.estimateSize(0)).toBe(80);
+    expect(itemsContainer.style.getPropertyValue('--item-size')).toBe('');
+  });
+
+  it('renders scroll placeholders while flinging and swaps items back when scrolling stops', () => {
+    let now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 50 }, (_, index) => createItem(`Item ${index}`));
+    const template = document.createElement('template');
+    template.slot = 'scroll-placeholder';
+    template.innerHTML = '<div class="skeleton"></div>';
+    element.append(...items, template);
+    element.setAttribute('placeholder-velocity', '5000');
+    const instance = connect(element);
+    const swaps: Event[] = [];
+    element.addEventListener('placeholderswap', (event) => swaps.push(event));
+    const itemsContainer = element.shadowRoot!.querySelector('.items') as HTMLDivElement;
+    const scrollTo = (offset: number, time: number, first: number): void => {
+      now = time;
+      instance.scrollOffset = offset;
+      const sizes = [30, 40];
+      instance.setVirtualState(
+        sizes.map((size, position) => ({ index: first + position, start: offset + position * 30, size, end: 0 })),
+        2000,
+      );
+    };
+
+    instance.isScrolling = true;
+    scrollTo(0, 0, 0);
+    // 4000px/s stays under the configured threshold.
+    scrollTo(400, 100, 10);
+    expect(Array.from(itemsContainer.children)).toEqual([items[10], items[11]]);
+
+    scrollTo(1000, 200, 25);
+    const placeholders = Array.from(itemsContainer.children) as HTMLElement[];
+    expect(element.hasAttribute('placeholders')).toBe(true);
+    expect(placeholders.map((placeholder) => placeholder.className)).toEqual(['scroll-placeholder', 'scroll-placeholder']);
+    expect(placeholders.map((placeholder) => placeholder.style.height)).toEqual(['30px', '40px']);
+    expect(placeholders[0]!.getAttribute('aria-hidden')).toBe('true');
+    expect(placeholders[0]!.querySelector('.skeleton')).not.toBeNull();
+    expect(items[25]!.isConnected).toBe(false);
+
+    // Slowing down keeps placeholders until scrolling has stopped.
+    scrollTo(1010, 300, 26);
+    expect(itemsContainer.children[0]).toBe(placeholders[0]);
+    expect(swaps).toHaveLength(0);
+
+    instance.isScrolling = false;
+    scrollTo(1010, 400, 26);
+    expect(Array.from(itemsContainer.children)).toEqual([items[26], items[27]]);
+    expect(element.hasAttribute('placeholders')).toBe(false);
+    expect(swaps).toHaveLength(1);
+    expect((swaps[0] as CustomEvent).detail).toEqual({ startIndex: 26, endIndex: 27 });
+  });
+
+  it('dispatches item lifecycle events once per transition, including on disconnect', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<{ id: string }>;
+    const instance = connect(element);
+    element.renderItem = (data, _index, recycled) => {
+      const row = recycled ?? document.createElement('div');
+      row.textContent = data.id;
+      return row;
+    };
+    element.getKey = (data) => data.id;
+    element.items = Array.from({ length: 10 }, (_, index) => ({ id: `row-${index}` }));
+
+    const log: string[] = [];
+    const elements = new Map<VirtualListKey, HTMLElement>();
+    for (const type of ['itemmount', 'itemunmount', 'itemvisible', 'itemhidden']) {
+      element.addEventListener(type, (event) => {
+        const { element: item, index, key } = (event as CustomEvent<VirtualListItemDetail>).detail;
+        if (type === 'itemmount') {
+          expect(item.textContent).toBe(key);
+        }
+        elements.set(key, item);
+        log.push(`${type} ${index} ${String(key)}`);
+      });
+    }
+    const show = (first: number): void => {
+      instance.range = { startIndex: first, endIndex: first + 1 };
+      instance.setVirtualState(
+        [0, 1, 2].map((offset) => ({ index: first + offset, start: (first + offset) * 20, size: 20, end: 0 })),
+        200,
+      );
+    };
+
+    show(0);
+    show(0);
+    expect(log.splice(0)).toEqual([
+      'itemmount 0 row-0',
+      'itemvisible 0 row-0',
+      'itemmount 1 row-1',
+      'itemvisible 1 row-1',
+      'itemmount 2 row-2',
+    ]);
+
+    // The element of row-0 is recycled for row-3: one unmount, one mount.
+    show(1);
+    expect(log.splice(0)).toEqual([
+      'itemhidden 0 row-0',
+      'itemunmount 0 row-0',
+      'itemvisible 2 row-2',
+      'itemmount 3 row-3',
+    ]);
+    expect(elements.get('row-3')).toBe(elements.get('row-0'));
+
+    element.remove();
+    expect(log.splice(0)).toEqual([
+      'itemhidden 1 row-1',
+      'itemunmount 1 row-1',
+      'itemhidden 2 row-2',
+      'itemunmount 2 row-2',
+      'itemunmount 3 row-3',
+    ]);
+  });
+
+  it('keeps its scroll position and measured sizes across reconnection', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    const items = Array.from({ length: 6 }, (_, index) => createItem(`item ${index}`, `item-${index}`));
+    element.append(...items);
+
+    let instance = connect(element);
+    instance.measurementsCache = items.map((_, index) => ({ index, start: index * 48, size: 48, end: (index + 1) * 48 }));
+    instance.range = { startIndex: 2, endIndex: 4 };
+    instance.scrollOffset = 100;
+    items[1]!.setAttribute('data-index', '1');
+    vi.spyOn(items[1]!, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, 72));
+    instance.options.measureElement?.(items[1]!);
+
+    expect(element.getState()).toEqual({
+      scrollOffset: 100,
+      anchorKey: 'item-2',
+      anchorOffset: 4,
+      sizes: [['item-1', 72]],
+    });
+
+    element.remove();
+    document.body.appendChild(element);
+    instance = virtualizerInstances[virtualizerInstances.length - 1]!;
+
+    expect(instance.options.initialOffset).toBe(100);
+    expect(instance.options.estimateSize(1)).toBe(72);
+    expect(instance.options.estimateSize(2)).toBe(48);
+  });
+
+  it('restores onto the anchor item when items have moved', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement;
+    element.append(...['a', 'b', 'c'].map((id) => createItem(id, id)));
+
+    const instance = connect(element);
+    instance.measurementsCache = [0, 1, 2].map((index) => ({ index, start: index * 50, size: 50, end: (index + 1) * 50 }));
+    element.restoreState({ scrollOffset: 0, anchorKey: 'c', anchorOffset: 5, sizes: [['a', 50]] });
+
+    expect(instance.scrollToOffsetCalls[instance.scrollToOffsetCalls.length - 1]?.[0]).toBe(105);
+    expect(instance.options.estimateSize(0)).toBe(50);
+  });
+
+  it('keeps restored sizes when item-size changes before they are applied', () => {
+    const element = document.createElement('virtual-list') as VirtualListElement<string>;
+    element.renderItem = (data) => createItem(data);
+    element.getKey = (data) => data;
+    connect(element);
+
+    // Restored sizes wait for the data to arrive.
+    element.restoreState({ scrollOffset: 0, anchorKey: null, anchorOffset: 0, sizes: [['a', 50]] });
+    element.setAttribute('item-size', '20');
+    element.items = ['a', 'b', 'c'];
+
+    const instance = virtualizerInstances.at(-1)!;
+    expect(instance.options.estimateSize(0)).toBe(50);
+    expect(instance.options.estimateSize(1)).toBe(20);
+  });
+
+  it('forgets sizes of removed items and leaves bigint keys out of persisted state', () => {
+    sessionStorage.clear();
+    const element = document.createElement('virtual-list') as VirtualListElement<bigint>;
+    element.setAttribute('persist-key', 'ledger');
+    element.renderItem = (data) => createItem(String(data));
+    element.getKey = (data) => data;
+    element.items = [1n, 2n, 3n];
+
+    const instance = connect(element);
+    instance.range = { startIndex: 0, endIndex: 2 };
+    instance.measurementsCache = [0, 1, 2].map((index) => ({ index, start: index * 48, size: 48, end: (index + 1) * 48 }));
+    const measure = (index: number, size: number) => {
+      const probe = createItem('probe');
+      probe.setAttribute('data-index', String(index));
+      vi.spyOn(probe, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 300, size));
+      instance.options.measureElement?.(probe);
+    };
+    measure(0, 30);
+    measure(2, 50);
+    measure(0, 40);
+    expect(element.getState().sizes).toEqual([[3n, 50], [1n, 40]]);
+
+    element.items = [1n, 2n];
+    expect(element.getState().sizes).toEqual([[1n, 40]]);
+
+    element.remove();
+    expect(JSON.parse(sessionStorage.getItem('virtual-list:ledger')!)).toEqual({
+      scrollOffset: 0,
+      anchorKey: null,
+      anchorOffset: 0,
+      sizes: [],
+    });
+    sessionStorage.clear();
+  });
+
+  it('persists its state to sessionStorage under persist-key', () => {
+    sessionStorage.clear();
+    const createList = () => {
+      const element = document.createElement('virtual-list') as VirtualListElement;
+      element.setAttribute('persist-key', 'inbox');
+      element.append(...Array.from({ length: 4 }, (_, index) => createItem(`item ${index}`)));
+      return element;
+    };
+
+    const first = createList();
+    const instance = connect(first);
+    instance.scrollOffset = 60;
+    first.remove();
+
+    const saved = JSON.parse(sessionStorage.getItem('virtual-list:inbox')!);
+    expect(saved.scrollOffset).toBe(60);
+
+    document.body.appendChild(createList());
+    expect(virtualizerInstances[virtualizerInstances.length - 1]!.options.initialOffset).toBe(60);
+    sessionStorage.clear();
+  });
 });
 
 describe('defineVirtualList', () => {